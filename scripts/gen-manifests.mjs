@@ -1,9 +1,16 @@
 // scripts/gen-manifests.mjs
 import { promises as fs } from "node:fs";
+import { createHash } from "node:crypto";
 import path from "node:path";
+import * as XLSX from "xlsx";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { BVHLoader } from "three/examples/jsm/loaders/BVHLoader.js";
+import { captureLabel, parseCaptureName } from "../src/shared/captureName.js";
 
 const ROOT = process.cwd();
 const DATA_DIR = path.join(ROOT, "public", "data");
+const SCHEMA_PATH = path.join(DATA_DIR, "manifest.schema.json");
 
 function isDateLike(s) {
   return /^\d{4}-\d{2}-\d{2}$/.test(s);
@@ -29,19 +36,295 @@ async function listFiles(dir) {
   } catch { return []; }
 }
 
-function pickFBX(files) {
-  const fbx = files.filter(f => /\.fbx$/i.test(f));
-  const exact = fbx.find(f => /^export\.fbx$/i.test(f));
-  return exact || fbx[0] || null;
+// Model for the session as { file, format }: FBX (EXPORT.fbx first), then
+// glTF/GLB, then a BVH (played on the viewer's default mannequin).
+const MODEL_FORMATS = [
+  { re: /\.fbx$/i, format: "fbx" },
+  { re: /\.(glb|gltf)$/i, format: "gltf" },
+  { re: /\.bvh$/i, format: "bvh" },
+];
+function pickModel(files) {
+  const exact = files.find(f => /^export\.fbx$/i.test(f));
+  if (exact) return { file: exact, format: "fbx" };
+  for (const { re, format } of MODEL_FORMATS) {
+    const file = files.find(f => re.test(f));
+    if (file) return { file, format };
+  }
+  return null;
 }
+const DEFAULT_MODEL = { file: "EXPORT.fbx", format: "fbx" };
+const sameModel = (a, b) => a.file === b.file && a.format === b.format;
+// Data file for the session ("excel" in the manifest for compatibility):
+// our workbooks first, then any workbook/CSV, then C3D markers, then BVH.
 function pickExcel(files) {
-  const x = files.filter(f => /\.(xlsx|xls|csv)$/i.test(f));
-  const pref = x.find(f => /Kinematic.*Data/i.test(f)) || x.find(f => /Baseball.*Data/i.test(f));
+  const x = files.filter(f => /\.(xlsx|xls|csv|c3d|bvh)$/i.test(f));
+  const pref =
+    x.find(f => /Kinematic.*Data/i.test(f)) ||
+    x.find(f => /Baseball.*Data/i.test(f)) ||
+    x.find(f => /\.(xlsx|xls|csv)$/i.test(f)) ||
+    x.find(f => /\.c3d$/i.test(f));
   return pref || x[0] || null;
 }
 
+// Capture exports encode the take as `_030_1_` (take 30, attempt 1); see
+// src/shared/captureName.js for the full name pattern.
+function takeIdOf(file) {
+  const capture = parseCaptureName(file);
+  if (capture) return capture.takeId;
+  const m = /_(\d{2,4})_(\d+)_/.exec(file);
+  return m ? `${m[1]}_${m[2]}` : null;
+}
+const stemOf = (file) => file.replace(/\.[^.]+$/, "");
+
+// One take per data file (grouped by take id when several files share one).
+// Each take pairs with the model carrying the same take id or file stem,
+// otherwise the session model. Returns [] for single-take sessions.
+// `clip` (animation name or index inside a shared model), `sync` and a better
+// `label` can be added by hand; regenerating keeps them (see keepHandEdits).
+function buildTakes(files, sessionModel) {
+  const dataFiles = files.filter(f => /\.(xlsx|xls|csv|c3d|bvh)$/i.test(f) && !f.startsWith("~$"));
+  const groups = new Map();
+  for (const f of dataFiles) {
+    const id = takeIdOf(f) ?? stemOf(f);
+    groups.set(id, [...(groups.get(id) ?? []), f]);
+  }
+  if (groups.size < 2) return [];
+
+  const shared = pickModel(files.filter(f => !takeIdOf(f) && !groups.has(stemOf(f))));
+  const takes = [];
+  for (const [id, group] of groups) {
+    const excel = pickExcel(group);
+    const own = files.filter(f => takeIdOf(f) === id || stemOf(f) === id);
+    const model = pickModel(own) ?? shared;
+    const m = /^(\d+)_(\d+)$/.exec(id);
+    const capture = parseCaptureName(excel);
+    const take = {
+      id,
+      label: capture ? captureLabel(capture) : m ? `Take ${Number(m[1])}${m[2] !== "1" ? ` (${m[2]})` : ""}` : id,
+      excel,
+      ...(capture ? { capture } : {}),
+    };
+    if (!model) {
+      if (sessionModel) take.model = null; // data-only take
+    } else if (!sessionModel || !sameModel(model, sessionModel)) {
+      take.model = model;
+    }
+    takes.push(take);
+  }
+  return takes.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+}
+
+/* -------------------- file inspection -------------------- */
+
+const sha256 = (buf) => createHash("sha256").update(buf).digest("hex");
+const toArrayBuffer = (buf) => buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength);
+const round = (v, d = 3) => (Number.isFinite(v) ? Math.round(v * 10 ** d) / 10 ** d : null);
+
+function medianStep(times) {
+  const dts = [];
+  for (let i = 1; i < times.length; i++) if (times[i] > times[i - 1]) dts.push(times[i] - times[i - 1]);
+  if (!dts.length) return NaN;
+  dts.sort((a, b) => a - b);
+  return dts[dts.length >> 1];
+}
+
+// Header row and time column picked the way src/utils/excel.ts does, so the
+// channel names here are the ones the viewer shows.
+function inspectSheet(name, table) {
+  let headerIdx = 0;
+  let best = -1;
+  for (let i = 0; i < Math.min(table.length, 20); i++) {
+    const row = table[i] ?? [];
+    const nonEmpty = row.filter((c) => typeof c === "string" && c.trim() !== "").length;
+    const hasTime = row.some((c) => typeof c === "string" && /^(t|time|timestamp)$/i.test(c.trim()));
+    const hasFrame = row.some((c) => typeof c === "string" && /frame/i.test(c.trim()));
+    const score = nonEmpty + (hasTime ? 3 : 0) + (hasFrame ? 2 : 0) - (nonEmpty <= 1 ? 3 : 0);
+    if (score > best) {
+      best = score;
+      headerIdx = i;
+    }
+  }
+  const seen = new Map();
+  const headers = (table[headerIdx] ?? []).map((v, i) => {
+    const h = v == null || String(v).trim() === "" ? `EMPTY ${i + 1}` : String(v).trim();
+    const n = (seen.get(h) ?? 0) + 1;
+    seen.set(h, n);
+    return n === 1 ? h : `${h} (${n})`;
+  });
+  const rows = table.slice(headerIdx + 1);
+
+  const timeIdx = headers.findIndex((h) => /^(t|time)$/i.test(h) || /timestamp/i.test(h) || /(time).*?(s|sec|seconds)/i.test(h));
+  const frameIdx = headers.findIndex((h) => /^frame(s)?$/i.test(h) || /frame ?index/i.test(h));
+  const isNum = (v) => typeof v === "number" && Number.isFinite(v);
+
+  const channels = headers.filter((_, i) => i !== timeIdx && i !== frameIdx && rows.some((r) => isNum(r[i])));
+  const frames = rows.filter((r) => r.some((v, i) => i !== timeIdx && i !== frameIdx && isNum(v))).length;
+  const scale = timeIdx >= 0 && /(ms|millisecond)/i.test(headers[timeIdx]) ? 1 / 1000 : 1;
+  const times = timeIdx >= 0 ? rows.map((r) => r[timeIdx]).filter(isNum).map((t) => t * scale) : [];
+  const step = medianStep(times);
+
+  return {
+    name,
+    channels,
+    frames,
+    fps: step > 0 ? round(1 / step, 2) : null,
+    duration: times.length > 1 ? round(times[times.length - 1] - times[0]) : null,
+  };
+}
+
+async function inspectDataFile(dir, file) {
+  const buf = await fs.readFile(path.join(dir, file));
+  const info = { file, bytes: buf.length, sha256: sha256(buf) };
+  // C3D / BVH data has no Node reader here; hash and size only
+  if (!/\.(xlsx|xls|csv)$/i.test(file)) return info;
+
+  const wb = XLSX.read(buf, { type: "buffer" });
+  const sheets = [];
+  for (const name of wb.SheetNames) {
+    const table = XLSX.utils.sheet_to_json(wb.Sheets[name], { header: 1, defval: null, raw: true });
+    const sheet = inspectSheet(name, table);
+    if (sheet.frames > 0 && sheet.channels.length) sheets.push(sheet);
+  }
+  if (!sheets.length) throw new Error("no sheet with numeric data");
+
+  // Most common sheet rate, like the viewer's resolveSessionRate
+  const counts = new Map();
+  for (const s of sheets) if (s.fps) counts.set(s.fps, (counts.get(s.fps) ?? 0) + 1);
+  const fps = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  const durations = sheets.map((s) => s.duration).filter((d) => d != null);
+  return {
+    ...info,
+    sheets,
+    fps,
+    duration: durations.length ? Math.max(...durations) : null,
+    frames: Math.max(...sheets.map((s) => s.frames)),
+  };
+}
+
+function clipsInfo(clips) {
+  let densest = null;
+  for (const clip of clips) for (const t of clip.tracks) if (!densest || t.times.length > densest.times.length) densest = t;
+  const step = densest ? medianStep(densest.times) : NaN;
+  return {
+    clips: clips.length,
+    duration: clips.length ? round(Math.max(...clips.map((c) => c.duration))) : null,
+    fps: step > 0 ? round(1 / step, 2) : null,
+  };
+}
+
+// Models are parsed with three's own loaders; textures can't load in Node, so a
+// loader failure is recorded on the entry rather than failing the run.
+async function inspectModelFile(dir, model) {
+  const buf = await fs.readFile(path.join(dir, model.file));
+  const info = { file: model.file, format: model.format, bytes: buf.length, sha256: sha256(buf) };
+  try {
+    if (model.format === "fbx") {
+      return { ...info, ...clipsInfo(new FBXLoader().parse(toArrayBuffer(buf), "").animations) };
+    }
+    if (model.format === "gltf") {
+      const gltf = await new GLTFLoader().parseAsync(toArrayBuffer(buf), "");
+      return { ...info, ...clipsInfo(gltf.animations) };
+    }
+    const { clip } = new BVHLoader().parse(buf.toString("utf8"));
+    return { ...info, ...clipsInfo([clip]) };
+  } catch (e) {
+    return { ...info, error: String(e?.message ?? e) };
+  }
+}
+
+/* -------------------- schema validation -------------------- */
+
+// Enough of JSON Schema for manifest.schema.json: type, enum, required,
+// properties / additionalProperties, items, anyOf, local $ref, min / pattern.
+function validate(schema, value, root = schema, at = "") {
+  if (schema.$ref) return validate(root.$defs[schema.$ref.replace("#/$defs/", "")], value, root, at);
+  const where = at || "(root)";
+  if (schema.anyOf) {
+    return schema.anyOf.some((s) => validate(s, value, root, at).length === 0)
+      ? []
+      : [`${where}: doesn't match any allowed form`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) return [`${where}: must be one of ${schema.enum.join(", ")}`];
+
+  if (schema.type) {
+    const types = [].concat(schema.type);
+    const actual = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+    const ok = types.some((t) => t === actual || (t === "integer" && Number.isInteger(value)));
+    if (!ok) return [`${where}: expected ${types.join(" or ")}, got ${actual}`];
+  }
+
+  const errors = [];
+  if (typeof value === "string") {
+    if (schema.minLength != null && value.length < schema.minLength) errors.push(`${where}: must not be empty`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${where}: doesn't match ${schema.pattern}`);
+  }
+  if (typeof value === "number") {
+    if (schema.minimum != null && value < schema.minimum) errors.push(`${where}: must be ≥ ${schema.minimum}`);
+    if (schema.exclusiveMinimum != null && value <= schema.exclusiveMinimum) errors.push(`${where}: must be > ${schema.exclusiveMinimum}`);
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((v, i) => errors.push(...validate(schema.items, v, root, `${at}[${i}]`)));
+  }
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const k of schema.required ?? []) if (!(k in value)) errors.push(`${where}: missing "${k}"`);
+    for (const [k, v] of Object.entries(value)) {
+      const sub = schema.properties?.[k] ?? schema.additionalProperties;
+      const key = `${at}.${k}`;
+      if (sub === false) errors.push(`${key}: unknown field`);
+      else if (sub && sub !== true) errors.push(...validate(sub, v, root, key));
+    }
+  }
+  return errors;
+}
+
+/* -------------------- manifests -------------------- */
+
+// Fields only ever written by hand (SyncPanel's "Copy for manifest" snippet,
+// a clip inside a shared model, a friendlier take label), carried over from
+// the existing index.json by session name and take id.
+const HAND_SESSION_FIELDS = ["sync"];
+const HAND_TAKE_FIELDS = ["clip", "sync", "label"];
+
+async function readManifest(fp) {
+  let raw;
+  try {
+    raw = await fs.readFile(fp, "utf8");
+  } catch {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.warn(`Warning: ${path.relative(ROOT, fp)} isn't valid JSON (${e.message}); hand edits in it are lost`);
+    return null;
+  }
+}
+
+const pick = (obj, keys) => Object.fromEntries(keys.filter((k) => obj?.[k] !== undefined).map((k) => [k, obj[k]]));
+
+function keepHandEdits(overrides, sessions, previous, where) {
+  for (const [session, prev] of Object.entries(previous?.files ?? {})) {
+    const kept = pick(prev, HAND_SESSION_FIELDS);
+    const prevTakes = (prev?.takes ?? []).filter((t) => Object.keys(pick(t, HAND_TAKE_FIELDS)).length);
+    if (!Object.keys(kept).length && !prevTakes.length) continue;
+
+    if (!sessions.includes(session)) {
+      console.warn(`Warning: ${where}/${session} is gone; dropping its hand-written fields`);
+      continue;
+    }
+    const files = (overrides[session] ??= {});
+    Object.assign(files, kept);
+    for (const prevTake of prevTakes) {
+      const take = files.takes?.find((t) => t.id === prevTake.id);
+      if (take) Object.assign(take, pick(prevTake, HAND_TAKE_FIELDS));
+      else console.warn(`Warning: ${where}/${session} take ${prevTake.id} is gone; dropping its hand-written fields`);
+    }
+  }
+}
+
 async function buildManifestForPlayer(playerDirName) {
   const playerPath = path.join(DATA_DIR, playerDirName);
+  const previous = await readManifest(path.join(playerPath, "index.json"));
   const sessionDirs = (await listDirs(playerPath)).sort(byDate);
 
   if (sessionDirs.length === 0) {
@@ -50,50 +333,125 @@ async function buildManifestForPlayer(playerDirName) {
         player: playerDirName,
         sessions: [],
         defaultSession: null,
-        fbx: "EXPORT.fbx",
+        model: DEFAULT_MODEL,
         excel: "Kinematic_Data (1).xlsx",
       },
       path: path.join(playerPath, "index.json"),
+      errors: [],
     };
   }
 
   const filesPerSession = {};
-  const firstFiles = { fbx: null, excel: null };
+  const details = {};
+  const errors = [];
+  const firstFiles = { model: null, excel: null };
 
   for (const session of sessionDirs) {
     const sp = path.join(playerPath, session);
+    const where = `${playerDirName}/${session}`;
     const files = await listFiles(sp);
-    const fbx = pickFBX(files);
+    const model = pickModel(files);
     const excel = pickExcel(files);
+    const takes = buildTakes(files, model);
+
+    // Without its own data file a session would silently show another session's data
+    if (!excel) {
+      errors.push(
+        `${where}: no data file (.xlsx, .xls, .csv, .c3d or .bvh)` +
+          (files.length ? `; found ${files.join(", ")}` : "; the folder is empty")
+      );
+      continue;
+    }
 
-    if (!firstFiles.fbx && fbx) firstFiles.fbx = fbx;
+    if (!firstFiles.model && model) firstFiles.model = model;
     if (!firstFiles.excel && excel) firstFiles.excel = excel;
 
-    filesPerSession[session] = { fbx, excel };
+    filesPerSession[session] = { model, excel, takes };
+
+    const dataFiles = [...new Set([excel, ...takes.map((t) => t.excel)])];
+    const modelFiles = [model, ...takes.map((t) => t.model)].filter(
+      (m, i, all) => m && all.findIndex((o) => o && sameModel(o, m)) === i
+    );
+    const data = [];
+    for (const f of dataFiles) {
+      try {
+        data.push(await inspectDataFile(sp, f));
+      } catch (e) {
+        errors.push(`${where}/${f}: can't be read (${e?.message ?? e})`);
+      }
+    }
+    const models = [];
+    for (const m of modelFiles) {
+      const info = await inspectModelFile(sp, m);
+      if (info.error) console.warn(`Warning: ${where}/${m.file}: ${info.error}`);
+      models.push(info);
+    }
+    details[session] = { data, models };
   }
 
-  const defaultFBX = firstFiles.fbx || "EXPORT.fbx";
+  const defaultModel = firstFiles.model || DEFAULT_MODEL;
   const defaultExcel = firstFiles.excel || "Kinematic_Data (1).xlsx";
 
   const overrides = {};
   for (const s of sessionDirs) {
-    const { fbx, excel } = filesPerSession[s];
+    if (!filesPerSession[s]) continue;
+    const { model, excel, takes } = filesPerSession[s];
     const o = {};
-    if (fbx && fbx !== defaultFBX) o.fbx = fbx;
+    if (!model) o.model = null; // data-only session (skeleton overlay, no mesh)
+    else if (!sameModel(model, defaultModel)) o.model = model;
     if (excel && excel !== defaultExcel) o.excel = excel;
+    if (takes.length) o.takes = takes;
+    else if (parseCaptureName(excel)) o.capture = parseCaptureName(excel);
     if (Object.keys(o).length) overrides[s] = o;
   }
+  keepHandEdits(overrides, Object.keys(filesPerSession), previous, playerDirName);
 
   const manifest = {
     player: playerDirName,
     sessions: sessionDirs,
     defaultSession: sessionDirs[sessionDirs.length - 1] ?? null,
-    fbx: defaultFBX,
+    model: defaultModel,
     excel: defaultExcel,
     ...(Object.keys(overrides).length ? { files: overrides } : {}),
+    details,
   };
 
-  return { manifest, path: path.join(playerPath, "index.json") };
+  return { manifest, path: path.join(playerPath, "index.json"), errors };
+}
+
+// Optional hand-written roster details: public/data/<player>/player.json
+// e.g. { "team": "NYM", "position": "1B", "bats": "R", "throws": "R" }
+const META_FILE = "player.json";
+const META_FIELDS = ["team", "position", "bats", "throws"];
+async function readPlayerMeta(playerDirName) {
+  const fp = path.join(DATA_DIR, playerDirName, META_FILE);
+  let raw;
+  try {
+    raw = await fs.readFile(fp, "utf8");
+  } catch {
+    return {};
+  }
+  try {
+    const json = JSON.parse(raw);
+    const meta = {};
+    for (const k of META_FIELDS) if (typeof json[k] === "string" && json[k].trim()) meta[k] = json[k].trim();
+    return meta;
+  } catch (e) {
+    console.warn(`Ignoring ${path.relative(ROOT, fp)}: ${e.message}`);
+    return {};
+  }
+}
+
+// Latest date-named session, else the most recently modified session folder.
+async function lastSessionDate(playerDirName, sessions) {
+  const dated = sessions.filter(isDateLike);
+  if (dated.length) return dated[dated.length - 1];
+  let latest = null;
+  for (const s of sessions) {
+    const st = await fs.stat(path.join(DATA_DIR, playerDirName, s)).catch(() => null);
+    if (st && (!latest || st.mtime > latest)) latest = st.mtime;
+  }
+  return latest ? latest.toISOString().slice(0, 10) : null;
 }
 
 async function writeJSON(fp, obj) {
@@ -103,13 +461,36 @@ async function writeJSON(fp, obj) {
 }
 
 async function main() {
+  const schema = JSON.parse(await fs.readFile(SCHEMA_PATH, "utf8"));
   const players = await listDirs(DATA_DIR);
-  const playersList = [];
+  const built = [];
+  const errors = [];
 
   for (const p of players) {
-    const { manifest, path: outPath } = await buildManifestForPlayer(p);
+    const result = await buildManifestForPlayer(p);
+    errors.push(...result.errors);
+    errors.push(...validate(schema, result.manifest).map((e) => `${p}/index.json ${e}`));
+    built.push({ player: p, ...result });
+  }
+
+  // Nothing is written unless every player is clean
+  if (errors.length) {
+    console.error(`Manifest generation failed (${errors.length} problem${errors.length === 1 ? "" : "s"}):`);
+    for (const e of errors) console.error(`  - ${e}`);
+    process.exit(1);
+  }
+
+  const playersList = [];
+  for (const { player: p, manifest, path: outPath } of built) {
     await writeJSON(outPath, manifest);
-    playersList.push({ player: manifest.player, defaultSession: manifest.defaultSession });
+    playersList.push({
+      player: manifest.player,
+      defaultSession: manifest.defaultSession,
+      ...(await readPlayerMeta(p)),
+      sessionCount: manifest.sessions.length,
+      lastSession: await lastSessionDate(p, manifest.sessions),
+      sessions: manifest.sessions,
+    });
     console.log("Wrote", path.relative(ROOT, outPath));
   }
 
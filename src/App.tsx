@@ -1,20 +1,65 @@
+import { useCallback, useEffect, useState } from "react";
 import ThreeView from "./components/ThreeView";
+import RosterView from "./components/RosterView";
+import { fetchRoster } from "./utils/roster";
+import type { RosterEntry } from "./utils/roster";
 
+/** URL params that pick what the viewer shows; cleared when going through the roster */
+const VIEW_PARAMS = ["player", "session", "take", "lock", "in", "out"];
+
+function clearViewParams() {
+  const sp = new URLSearchParams(window.location.search);
+  for (const k of VIEW_PARAMS) sp.delete(k);
+  const qs = sp.toString();
+  window.history.replaceState({}, "", `${window.location.pathname}${qs ? `?${qs}` : ""}`);
+}
+
+/**
+ * Roster landing page, then the viewer. Links that already name a player or
+ * session (shared / locked links) go straight to the viewer, as does a deploy
+ * without players.json.
+ */
 export default function App() {
+  const [roster, setRoster] = useState<RosterEntry[] | null>(null);
+  const [view, setView] = useState<"roster" | "viewer">(() => {
+    const sp = new URLSearchParams(window.location.search);
+    return sp.has("player") || sp.has("session") ? "viewer" : "roster";
+  });
+  const [start, setStart] = useState<{ player: string; session: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRoster().then((list) => {
+      if (cancelled) return;
+      setRoster(list);
+      if (!list?.length) setView("viewer");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const open = useCallback((player: string, session: string | null) => {
+    clearViewParams();
+    setStart({ player, session });
+    setView("viewer");
+  }, []);
+
+  const showRoster = useCallback(() => {
+    clearViewParams();
+    setView("roster");
+  }, []);
+
+  if (view === "roster") {
+    return <RosterView roster={roster} logo={`${import.meta.env.BASE_URL}Logo.png`} onOpen={open} />;
+  }
   return (
-    <div
-      style={{
-        height: "100vh",
-        width: "100vw",
-        display: "grid",
-        gridTemplateColumns: "1fr",
-        gridTemplateRows: "1fr",
-        background: "#0b0c0e",
-      }}
-    >
-      <div style={{ borderTop: "1px solid rgba(255,255,255,0.06)" }}>
-        <ThreeView />
-      </div>
-    </div>
+    <ThreeView
+      key={start ? `${start.player}/${start.session ?? ""}` : "url"}
+      roster={roster}
+      startPlayer={start?.player}
+      startSession={start?.session}
+      onShowRoster={roster?.length ? showRoster : undefined}
+    />
   );
 }
@@ -0,0 +1,103 @@
+// src/components/CachePanel.tsx
+import { useCallback, useEffect, useState } from "react";
+import type { CSSProperties } from "react";
+import { clearCache, listCache } from "../utils/dataCache";
+import type { CacheEntry } from "../utils/dataCache";
+
+function formatBytes(n: number): string {
+  if (n >= 1 << 20) return `${(n / (1 << 20)).toFixed(1)} MB`;
+  if (n >= 1 << 10) return `${Math.round(n / (1 << 10))} KB`;
+  return `${n} B`;
+}
+
+/** "public/data/Player/2024-05-01/file.xlsx" → "Player/2024-05-01/file.xlsx" */
+function shortUrl(url: string): string {
+  const path = decodeURIComponent(url.split(/[?#]/)[0]);
+  return path.replace(/^.*?\/data\//, "");
+}
+
+/**
+ * Admin card listing the parsed data files kept in IndexedDB, with their
+ * sizes and when they were cached, to drop one or all of them.
+ */
+export default function CachePanel({
+  onClose,
+  style,
+}: {
+  onClose: () => void;
+  style?: CSSProperties;
+}) {
+  const [entries, setEntries] = useState<CacheEntry[] | null>(null);
+
+  const refresh = useCallback(() => {
+    listCache().then(setEntries);
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const remove = async (url?: string) => {
+    await clearCache(url);
+    refresh();
+  };
+
+  const total = (entries ?? []).reduce((sum, e) => sum + e.bytes, 0);
+  const row: CSSProperties = { display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 };
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{
+        padding: "10px 12px",
+        width: 340,
+        color: "var(--text)",
+        fontSize: 12,
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        ...style,
+      }}
+    >
+      <div style={row}>
+        <span style={{ fontWeight: 700, letterSpacing: "0.04em" }}>Data cache</span>
+        <button className="btn ghost" style={{ height: 24, padding: "0 8px" }} onClick={onClose}>
+          ✕
+        </button>
+      </div>
+      <span className="small">
+        {entries == null
+          ? "Reading cache…"
+          : `${entries.length} file${entries.length === 1 ? "" : "s"} · ${formatBytes(total)}`}
+      </span>
+
+      {entries && entries.length > 0 && (
+        <div style={{ maxHeight: 260, overflowY: "auto", display: "flex", flexDirection: "column", gap: 6 }}>
+          {entries.map((e) => (
+            <div key={e.url} style={row}>
+              <div style={{ display: "flex", flexDirection: "column", minWidth: 0 }}>
+                <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={e.url}>
+                  {shortUrl(e.url)}
+                </span>
+                <span className="small">
+                  {formatBytes(e.fileBytes)} file · {formatBytes(e.bytes)} cached · {e.sheetNames.length} sheet
+                  {e.sheetNames.length === 1 ? "" : "s"} · {new Date(e.storedAt).toLocaleString()}
+                </span>
+              </div>
+              <button className="btn ghost" style={{ height: 24, padding: "0 8px" }} onClick={() => remove(e.url)}>
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 6 }}>
+        <button className="btn ghost" onClick={refresh}>
+          Refresh
+        </button>
+        <button className="btn" onClick={() => remove()} disabled={!entries?.length}>
+          Clear all
+        </button>
+      </div>
+    </div>
+  );
+}
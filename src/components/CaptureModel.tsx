@@ -0,0 +1,150 @@
+import { useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { pickClip, useModelAsset } from "../utils/models";
+import type { ClipRef, ModelAsset, ModelSource } from "../utils/models";
+
+/** Animated capture model (FBX, glTF/GLB or a BVH on the default mannequin). */
+export default function CaptureModel({
+  source,
+  clip: clipRef,
+  scale,
+  position = [0, 0, 0] as [number, number, number],
+  rotation = [0, 0, 0] as [number, number, number],
+  time = 0,                          // absolute time (seconds)
+  onReadyDuration,
+  onClips,
+  onAsset,
+  ghost,
+}: {
+  source: ModelSource;
+  /** Which animation to play when the file holds several takes */
+  clip?: ClipRef | null;
+  /** Override the format's file-unit scale (FBX cm, BVH guessed, glTF metres) */
+  scale?: number;
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  time?: number;
+  onReadyDuration?: (duration: number) => void;
+  /** Names of every clip in the file (for a clip picker) */
+  onClips?: (names: string[]) => void;
+  /** The loaded asset and playing clip (e.g. to sample bones off-screen) */
+  onAsset?: (asset: ModelAsset, clip: THREE.AnimationClip | null) => void;
+  /** Render as a flat translucent silhouette (e.g. a comparison swing) */
+  ghost?: { color: string; opacity: number };
+}) {
+  const asset = useModelAsset(source);
+  const model = asset.object;
+  const clip = pickClip(asset.clips, clipRef);
+  const unitScale = scale ?? asset.scale;
+
+  const mixerRef = useRef<THREE.AnimationMixer | null>(null);
+  const actionRef = useRef<THREE.AnimationAction | null>(null);
+  const durationRef = useRef<number>(0);
+
+  useEffect(() => {
+    onClips?.(asset.clips.map((c, i) => c.name || `Clip ${i + 1}`));
+  }, [asset.clips, onClips]);
+
+  useEffect(() => {
+    onAsset?.(asset, clip);
+  }, [asset, clip, onAsset]);
+
+  useEffect(() => {
+    // Ensure meshes are visible and have reasonable materials
+    model.traverse((obj: any) => {
+      if (obj.isMesh) {
+        obj.castShadow = true;
+        obj.receiveShadow = true;
+
+        // If the imported material is unlit/black, use a neutral PBR fallback
+        const m = obj.material as THREE.Material | undefined;
+        const needsFallback =
+          !m ||
+          // @ts-ignore
+          (m.color && (m as any).color.equals?.(new THREE.Color(0x000000)));
+
+        if (needsFallback) {
+          obj.material = new THREE.MeshStandardMaterial({
+            color: new THREE.Color("#c8ccd4"),
+            roughness: 0.9,
+            metalness: 0.05,
+          });
+        }
+      }
+    });
+
+    model.scale.setScalar(unitScale);
+    model.position.set(position[0], position[1], position[2]);
+    model.rotation.set(rotation[0], rotation[1], rotation[2]);
+
+    if (clip) {
+      durationRef.current = clip.duration;
+
+      const mixer = new THREE.AnimationMixer(model);
+      const action = mixer.clipAction(clip);
+      action.enabled = true;
+      action.setLoop(THREE.LoopRepeat, Infinity);
+      action.setEffectiveWeight(1);
+      action.play();
+
+      mixerRef.current = mixer;
+      actionRef.current = action;
+
+      onReadyDuration?.(clip.duration);
+    } else {
+      mixerRef.current = null;
+      actionRef.current = null;
+      durationRef.current = 0;
+      onReadyDuration?.(0);
+    }
+
+    return () => {
+      actionRef.current?.stop();
+      mixerRef.current?.stopAllAction();
+      mixerRef.current?.uncacheRoot(model);
+      actionRef.current = null;
+      mixerRef.current = null;
+      durationRef.current = 0;
+    };
+  }, [model, clip, unitScale, position, rotation, onReadyDuration]);
+
+  // Ghost materials replace the originals; restore them so the cached model stays intact
+  const ghostColor = ghost?.color;
+  const ghostOpacity = ghost?.opacity;
+  useEffect(() => {
+    if (!ghostColor) return;
+    const swapped: Array<{ mesh: THREE.Mesh; material: THREE.Material | THREE.Material[] }> = [];
+    const mat = new THREE.MeshStandardMaterial({
+      color: new THREE.Color(ghostColor),
+      roughness: 0.8,
+      metalness: 0,
+      transparent: true,
+      opacity: ghostOpacity ?? 0.4,
+      depthWrite: false,
+    });
+    model.traverse((obj) => {
+      const mesh = obj as THREE.Mesh;
+      if (!mesh.isMesh) return;
+      swapped.push({ mesh, material: mesh.material });
+      mesh.material = mat;
+    });
+    return () => {
+      for (const { mesh, material } of swapped) mesh.material = material;
+      mat.dispose();
+    };
+  }, [model, ghostColor, ghostOpacity]);
+
+  // Drive to exact time (scrub/play controlled by parent)
+  useFrame(() => {
+    const mixer = mixerRef.current;
+    const action = actionRef.current;
+    const dur = durationRef.current;
+    if (!mixer || !action) return;
+
+    const t = dur > 0 ? (time % dur + dur) % dur : 0;
+    mixer.setTime(t);
+  });
+
+  return <primitive object={model} />;
+}
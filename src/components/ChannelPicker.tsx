@@ -0,0 +1,109 @@
+// src/components/ChannelPicker.tsx
+import { useEffect, useMemo, useRef, useState } from "react";
+
+/** Quick selections for common comparisons (matched against channel names). */
+const PRESETS: Array<{ label: string; test: RegExp }> = [
+  { label: "Legs", test: /(hip|knee|ankle)/i },
+  { label: "Arms", test: /(shoulder|elbow|wrist)/i },
+  { label: "Trunk", test: /(pelvis|torso|spine|trunk)/i },
+];
+
+/**
+ * Toolbar popover with a searchable checkbox list of channels.
+ */
+export default function ChannelPicker({
+  channels,
+  selected,
+  onChange,
+  format = (k) => k,
+  max = 12,
+}: {
+  channels: string[];
+  selected: string[];
+  onChange: (next: string[]) => void;
+  format?: (k: string) => string;
+  max?: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: PointerEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener("pointerdown", onDown);
+    return () => window.removeEventListener("pointerdown", onDown);
+  }, [open]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return channels;
+    return channels.filter((k) => k.toLowerCase().includes(q) || format(k).toLowerCase().includes(q));
+  }, [channels, query, format]);
+
+  const toggle = (k: string) => {
+    if (selected.includes(k)) onChange(selected.filter((s) => s !== k));
+    else if (selected.length < max) onChange([...selected, k]);
+  };
+
+  return (
+    <div ref={rootRef} style={{ position: "relative" }}>
+      <button className="btn" onClick={() => setOpen((o) => !o)} disabled={!channels.length}>
+        Channels ({selected.length})
+      </button>
+      {open && (
+        <div
+          className="panel-wrap"
+          style={{
+            position: "absolute",
+            top: 36,
+            left: 0,
+            width: 300,
+            maxHeight: 360,
+            display: "flex",
+            flexDirection: "column",
+            gap: 6,
+            padding: 10,
+            zIndex: 20,
+            background: "rgba(12,14,18,0.96)",
+          }}
+        >
+          <input
+            className="select"
+            placeholder="Filter channels…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            style={{ minWidth: 0, width: "100%", boxSizing: "border-box" }}
+            autoFocus
+          />
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+            {PRESETS.map((p) => (
+              <button
+                key={p.label}
+                className="btn"
+                style={{ height: 24 }}
+                onClick={() => onChange(channels.filter((k) => p.test.test(k)).slice(0, max))}
+              >
+                {p.label}
+              </button>
+            ))}
+            <button className="btn ghost" style={{ height: 24 }} onClick={() => onChange([])}>
+              Clear
+            </button>
+          </div>
+          <div style={{ overflowY: "auto", minHeight: 0 }}>
+            {visible.map((k) => (
+              <label key={k} className="toggle" style={{ padding: "2px 0" }} title={k}>
+                <input type="checkbox" checked={selected.includes(k)} onChange={() => toggle(k)} />
+                <span>{format(k)}</span>
+              </label>
+            ))}
+          </div>
+          {selected.length >= max && <span className="small">Up to {max} channels.</span>}
+        </div>
+      )}
+    </div>
+  );
+}
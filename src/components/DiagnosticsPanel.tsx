@@ -0,0 +1,127 @@
+// src/components/DiagnosticsPanel.tsx
+import type { CSSProperties } from "react";
+import { ISSUE_META, issueCounts } from "../utils/diagnostics";
+import type { GapFill, IssueKind, SheetReport } from "../utils/diagnostics";
+
+const COLUMNS: IssueKind[] = ["gap", "flat", "spike"];
+
+/**
+ * Admin card listing data-quality problems in the current sheet, per channel
+ * (missing runs, flat lines, spikes) plus Time-column problems, with the
+ * gap-filling choice. Clicking a row plots that channel at its first problem.
+ */
+export default function DiagnosticsPanel({
+  report,
+  sheet,
+  format,
+  gapFill,
+  onGapFill,
+  shade,
+  onShade,
+  onSelect,
+  onClose,
+  style,
+}: {
+  report: SheetReport | null;
+  sheet: string | null;
+  format?: (k: string) => string;
+  gapFill: GapFill;
+  onGapFill: (fill: GapFill) => void;
+  /** Shade problem regions on the graphs */
+  shade: boolean;
+  onShade: (on: boolean) => void;
+  onSelect?: (channel: string, tData: number) => void;
+  onClose: () => void;
+  style?: CSSProperties;
+}) {
+  const flagged = (report?.channels ?? [])
+    .filter((c) => c.issues.length > 0)
+    .sort((a, b) => b.issues.length - a.issues.length || b.missing - a.missing);
+  const row: CSSProperties = { display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 };
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{
+        padding: "10px 12px",
+        width: 340,
+        color: "var(--text)",
+        fontSize: 12,
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        ...style,
+      }}
+    >
+      <div style={row}>
+        <span style={{ fontWeight: 700, letterSpacing: "0.04em" }}>Data quality</span>
+        <button className="btn ghost" style={{ height: 24, padding: "0 8px" }} onClick={onClose}>
+          ✕
+        </button>
+      </div>
+      <span className="small">
+        {sheet ?? "No sheet"}
+        {report ? ` · ${report.rows} rows · ${report.channels.length} channels` : ""}
+      </span>
+
+      {report && report.time.length > 0 && (
+        <span style={{ color: ISSUE_META.time.color }}>
+          Time column goes backwards or skips frames in {report.time.length} place{report.time.length === 1 ? "" : "s"}
+        </span>
+      )}
+
+      {report &&
+        (flagged.length === 0 ? (
+          <span className="small">No missing samples, flat lines or spikes.</span>
+        ) : (
+          <div style={{ maxHeight: 260, overflowY: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ color: "var(--muted)", textAlign: "left" }}>
+                  <th style={{ fontWeight: 500, paddingBottom: 4 }}>Channel</th>
+                  {COLUMNS.map((k) => (
+                    <th key={k} style={{ fontWeight: 500, paddingBottom: 4, textAlign: "right", color: ISSUE_META[k].color }}>
+                      {ISSUE_META[k].label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {flagged.map((c) => {
+                  const counts = issueCounts(c.issues);
+                  return (
+                    <tr
+                      key={c.channel}
+                      onClick={() => onSelect?.(c.channel, c.issues[0].t0)}
+                      style={{ cursor: onSelect ? "pointer" : "default" }}
+                      title="Plot this channel at its first problem"
+                    >
+                      <td style={{ padding: "3px 0", maxWidth: 160, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                        {format ? format(c.channel) : c.channel}
+                      </td>
+                      <td style={{ textAlign: "right" }}>{counts.gap ? `${c.missing} (${counts.gap})` : "—"}</td>
+                      <td style={{ textAlign: "right" }}>{counts.flat || "—"}</td>
+                      <td style={{ textAlign: "right" }}>{counts.spike || "—"}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+      <label style={row}>
+        <span className="small">Fill gaps</span>
+        <select className="select" value={gapFill} onChange={(e) => onGapFill(e.target.value as GapFill)}>
+          <option value="off">Off</option>
+          <option value="linear">Linear</option>
+          <option value="spline">Spline</option>
+        </select>
+      </label>
+      <label className="toggle">
+        <input type="checkbox" checked={shade} onChange={(e) => onShade(e.target.checked)} />
+        <span>Shade problems on graphs</span>
+      </label>
+    </div>
+  );
+}
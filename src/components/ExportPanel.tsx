@@ -0,0 +1,189 @@
+// src/components/ExportPanel.tsx
+import { useRef, useState } from "react";
+import type { CSSProperties } from "react";
+import { pickVideoType } from "../utils/videoExport";
+import type { ExportFormat, VideoExportOptions } from "../utils/videoExport";
+
+const RESOLUTIONS: Array<{ label: string; width: number; height: number }> = [
+  { label: "1280 × 720", width: 1280, height: 720 },
+  { label: "1920 × 1080", width: 1920, height: 1080 },
+  { label: "1080 × 1920 (vertical)", width: 1080, height: 1920 },
+  { label: "1080 × 1080", width: 1080, height: 1080 },
+];
+
+const SPEEDS = [0.25, 0.5, 1];
+
+/**
+ * Options + progress card for the frame-stepped video / PNG-sequence export.
+ */
+export default function ExportPanel({
+  duration,
+  loopRegion,
+  hasGraphs,
+  onExport,
+  onClose,
+  style,
+}: {
+  duration: number;
+  loopRegion: [number, number] | null;
+  hasGraphs: boolean;
+  onExport: (
+    opts: VideoExportOptions,
+    onProgress: (done: number, total: number) => void,
+    signal: AbortSignal
+  ) => Promise<void>;
+  onClose: () => void;
+  style?: CSSProperties;
+}) {
+  const videoType = pickVideoType();
+  const [format, setFormat] = useState<ExportFormat>(videoType ? "webm" : "png");
+  const [res, setRes] = useState(0);
+  const [fps, setFps] = useState(30);
+  const [speed, setSpeed] = useState(0.5);
+  const [range, setRange] = useState<"full" | "loop">(loopRegion ? "loop" : "full");
+  const [includeGraphs, setIncludeGraphs] = useState(hasGraphs);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [start, end] = range === "loop" && loopRegion ? loopRegion : [0, duration];
+  const frames = Math.max(1, Math.floor((end - start) / (speed / fps)) + 1);
+  const busy = progress != null;
+
+  async function run() {
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setError(null);
+    setProgress({ done: 0, total: frames });
+    try {
+      await onExport(
+        { format, ...RESOLUTIONS[res], fps, speed, start, end, includeGraphs: includeGraphs && hasGraphs },
+        (done, total) => setProgress({ done, total }),
+        ctrl.signal
+      );
+    } catch (err) {
+      if ((err as Error)?.name !== "AbortError") {
+        console.error("Export failed:", err);
+        setError((err as Error)?.message ?? String(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }
+
+  const row: CSSProperties = { display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 };
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{
+        padding: "10px 12px",
+        width: 280,
+        color: "var(--text)",
+        fontSize: 12,
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        ...style,
+      }}
+    >
+      <div style={row}>
+        <span style={{ fontWeight: 700, letterSpacing: "0.04em" }}>Export video</span>
+        <button className="btn ghost" style={{ height: 24, padding: "0 8px" }} onClick={onClose} disabled={busy}>
+          ✕
+        </button>
+      </div>
+
+      <label style={row}>
+        <span className="small">Format</span>
+        <select className="select" value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} disabled={busy}>
+          <option value="webm" disabled={!videoType}>
+            {videoType?.ext === "mp4" ? "MP4" : "WebM"}
+          </option>
+          <option value="png">PNG sequence (.zip)</option>
+        </select>
+      </label>
+      {format === "webm" && videoType && !videoType.exact && (
+        <span className="small">Recorded in real time in this browser: timing can drift. PNG frames are exact.</span>
+      )}
+      <label style={row}>
+        <span className="small">Size</span>
+        <select className="select" value={res} onChange={(e) => setRes(Number(e.target.value))} disabled={busy}>
+          {RESOLUTIONS.map((r, i) => (
+            <option key={r.label} value={i}>
+              {r.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={row}>
+        <span className="small">Frame rate</span>
+        <select className="select" value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={busy}>
+          <option value={30}>30 fps</option>
+          <option value={60}>60 fps</option>
+        </select>
+      </label>
+      <label style={row}>
+        <span className="small">Speed</span>
+        <select className="select" value={speed} onChange={(e) => setSpeed(Number(e.target.value))} disabled={busy}>
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              {s}×
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={row}>
+        <span className="small">Range</span>
+        <select
+          className="select"
+          value={range}
+          onChange={(e) => setRange(e.target.value as "full" | "loop")}
+          disabled={busy}
+        >
+          <option value="full">Whole clip</option>
+          <option value="loop" disabled={!loopRegion}>
+            Loop region
+          </option>
+        </select>
+      </label>
+      <label className="toggle">
+        <input
+          type="checkbox"
+          checked={includeGraphs && hasGraphs}
+          onChange={(e) => setIncludeGraphs(e.target.checked)}
+          disabled={busy || !hasGraphs}
+        />
+        <span>Include docked graphs</span>
+      </label>
+
+      <span className="small">
+        {start.toFixed(2)}–{end.toFixed(2)}s · {frames} frames · {(frames / fps).toFixed(1)}s of video
+      </span>
+
+      {progress && (
+        <div style={{ height: 6, borderRadius: 3, background: "rgba(255,255,255,0.1)", overflow: "hidden" }}>
+          <div
+            style={{
+              width: `${(100 * progress.done) / progress.total}%`,
+              height: "100%",
+              background: "var(--accent)",
+            }}
+          />
+        </div>
+      )}
+      {error && <span style={{ color: "#ef4444" }}>{error}</span>}
+
+      {busy ? (
+        <button className="btn" onClick={() => abortRef.current?.abort()}>
+          Cancel ({progress.done}/{progress.total})
+        </button>
+      ) : (
+        <button className="btn primary" onClick={run} disabled={duration <= 0}>
+          Render
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+// src/components/FilterChain.tsx
+import { useEffect, useRef, useState } from "react";
+import type { CSSProperties } from "react";
+import { FILTER_META, pipelineLabel } from "../utils/filters";
+import type { FilterKind, FilterStep } from "../utils/filters";
+
+/**
+ * Toolbar popover for editing the processing chain of one metric: add, edit,
+ * reorder and remove steps, and choose whether the raw trace stays visible.
+ */
+export default function FilterChain({
+  steps,
+  onChange,
+  showRaw,
+  onShowRaw,
+  title,
+}: {
+  steps: FilterStep[];
+  onChange: (next: FilterStep[]) => void;
+  /** Keep the unprocessed trace under the filtered one */
+  showRaw: boolean;
+  onShowRaw: (on: boolean) => void;
+  title?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: PointerEvent) => {
+      if (rootRef.current && !rootRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener("pointerdown", onDown);
+    return () => window.removeEventListener("pointerdown", onDown);
+  }, [open]);
+
+  const update = (i: number, step: FilterStep) => onChange(steps.map((s, j) => (j === i ? step : s)));
+  const remove = (i: number) => onChange(steps.filter((_, j) => j !== i));
+  const move = (i: number, by: number) => {
+    const j = i + by;
+    if (j < 0 || j >= steps.length) return;
+    const next = [...steps];
+    [next[i], next[j]] = [next[j], next[i]];
+    onChange(next);
+  };
+
+  const row: CSSProperties = { display: "flex", alignItems: "center", gap: 6 };
+  const num: CSSProperties = { width: 56, minWidth: 0 };
+  const small: CSSProperties = { height: 24, padding: "0 6px" };
+
+  return (
+    <div ref={rootRef} style={{ position: "relative" }}>
+      <button
+        className={`btn${steps.length ? " primary" : ""}`}
+        onClick={() => setOpen((o) => !o)}
+        title={steps.length ? pipelineLabel(steps) : "Filters"}
+        style={{ padding: "0 8px" }}
+      >
+        ƒ{steps.length ? ` ${steps.length}` : ""}
+      </button>
+      {open && (
+        <div
+          className="panel-wrap"
+          style={{
+            position: "absolute",
+            top: 36,
+            left: 0,
+            width: 320,
+            display: "flex",
+            flexDirection: "column",
+            gap: 6,
+            padding: 10,
+            zIndex: 20,
+            background: "rgba(12,14,18,0.96)",
+            color: "var(--text)",
+            fontSize: 12,
+          }}
+        >
+          <span style={{ fontWeight: 700, letterSpacing: "0.04em" }}>{title ?? "Filters"}</span>
+          {steps.length === 0 && <span className="small">No processing: the raw trace is plotted.</span>}
+
+          {steps.map((s, i) => (
+            <div key={i} style={row}>
+              <span style={{ flex: 1, minWidth: 0 }}>{FILTER_META[s.kind].label}</span>
+              {(s.kind === "movingAverage" || s.kind === "savitzkyGolay") && (
+                <input
+                  className="select"
+                  type="number"
+                  min={s.kind === "savitzkyGolay" ? 3 : 1}
+                  step={2}
+                  style={num}
+                  value={s.window}
+                  title="Window (samples)"
+                  onChange={(e) => {
+                    const window = Number(e.target.value);
+                    if (window > 0) update(i, { ...s, window });
+                  }}
+                />
+              )}
+              {s.kind === "savitzkyGolay" && (
+                <input
+                  className="select"
+                  type="number"
+                  min={0}
+                  max={6}
+                  style={{ ...num, width: 44 }}
+                  value={s.order}
+                  title="Polynomial order"
+                  onChange={(e) => {
+                    const order = Number(e.target.value);
+                    if (order >= 0) update(i, { ...s, order });
+                  }}
+                />
+              )}
+              {s.kind === "butterworth" && (
+                <>
+                  <input
+                    className="select"
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    style={num}
+                    value={s.cutoffHz}
+                    title="Cutoff (Hz)"
+                    onChange={(e) => {
+                      const cutoffHz = Number(e.target.value);
+                      if (cutoffHz > 0) update(i, { ...s, cutoffHz });
+                    }}
+                  />
+                  <span className="small">Hz</span>
+                </>
+              )}
+              {s.kind === "derivative" && (
+                <select
+                  className="select"
+                  style={{ minWidth: 0 }}
+                  value={s.order}
+                  onChange={(e) => update(i, { ...s, order: e.target.value === "2" ? 2 : 1 })}
+                >
+                  <option value="1">1st</option>
+                  <option value="2">2nd</option>
+                </select>
+              )}
+              <button className="btn ghost" style={small} onClick={() => move(i, -1)} disabled={i === 0} title="Earlier">
+                ↑
+              </button>
+              <button
+                className="btn ghost"
+                style={small}
+                onClick={() => move(i, 1)}
+                disabled={i === steps.length - 1}
+                title="Later"
+              >
+                ↓
+              </button>
+              <button className="btn ghost" style={small} onClick={() => remove(i)} title="Remove">
+                ✕
+              </button>
+            </div>
+          ))}
+
+          <div style={row}>
+            <select
+              className="select"
+              value=""
+              onChange={(e) => {
+                const kind = e.target.value as FilterKind;
+                if (kind) onChange([...steps, { ...FILTER_META[kind].defaults }]);
+              }}
+              style={{ flex: 1, minWidth: 0 }}
+            >
+              <option value="">Add step…</option>
+              {(Object.keys(FILTER_META) as FilterKind[]).map((k) => (
+                <option key={k} value={k}>
+                  {FILTER_META[k].label}
+                </option>
+              ))}
+            </select>
+            <button className="btn ghost" style={small} onClick={() => onChange([])} disabled={!steps.length}>
+              Clear
+            </button>
+          </div>
+
+          <label className="toggle">
+            <input type="checkbox" checked={showRaw} onChange={(e) => onShowRaw(e.target.checked)} />
+            <span>Show raw trace</span>
+          </label>
+          <span className="small">Saved per channel in this browser.</span>
+        </div>
+      )}
+    </div>
+  );
+}
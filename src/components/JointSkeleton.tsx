@@ -0,0 +1,136 @@
+// src/components/JointSkeleton.tsx
+import { useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { availableBones, sampleTrack } from "../utils/joints";
+import type { JointData } from "../utils/joints";
+
+const JOINT_RADIUS = 0.022;
+const BONE_RADIUS = 0.009;
+
+const COLOR_RIGHT = "#e5812b";
+const COLOR_LEFT = "#5aa9ff";
+const COLOR_CENTER = "#e6edf7";
+
+function sideColor(key: string) {
+  if (/right/i.test(key)) return COLOR_RIGHT;
+  if (/left/i.test(key)) return COLOR_LEFT;
+  return COLOR_CENTER;
+}
+
+/**
+ * Stick-figure overlay built from joint-center triplets.
+ * Drawn without depth testing so it stays visible through the FBX mesh.
+ */
+export default function JointSkeleton({
+  data,
+  time = 0, // data time (seconds)
+  opacity = 0.95,
+}: {
+  data: JointData;
+  time?: number;
+  opacity?: number;
+}) {
+  const bones = useMemo(() => availableBones(data), [data]);
+  const jointKeys = useMemo(() => {
+    const set = new Set<string>();
+    for (const [a, b] of bones) {
+      set.add(a);
+      set.add(b);
+    }
+    return Array.from(set);
+  }, [bones]);
+
+  const jointRefs = useRef<Array<THREE.Mesh | null>>([]);
+  const boneRefs = useRef<Array<THREE.Mesh | null>>([]);
+
+  const sphere = useMemo(() => new THREE.SphereGeometry(JOINT_RADIUS, 16, 12), []);
+  const cylinder = useMemo(() => new THREE.CylinderGeometry(BONE_RADIUS, BONE_RADIUS, 1, 8, 1), []);
+
+  const scratch = useMemo(
+    () => ({
+      p: [0, 0, 0] as [number, number, number],
+      q: [0, 0, 0] as [number, number, number],
+      a: new THREE.Vector3(),
+      b: new THREE.Vector3(),
+      dir: new THREE.Vector3(),
+      up: new THREE.Vector3(0, 1, 0),
+    }),
+    []
+  );
+
+  useFrame(() => {
+    const { p, q, a, b, dir, up } = scratch;
+
+    jointKeys.forEach((key, i) => {
+      const mesh = jointRefs.current[i];
+      if (!mesh) return;
+      const ok = sampleTrack(data, data.tracks[key], time, p);
+      mesh.visible = ok;
+      if (ok) mesh.position.set(p[0], p[1], p[2]);
+    });
+
+    bones.forEach(([from, to], i) => {
+      const mesh = boneRefs.current[i];
+      if (!mesh) return;
+      const ok =
+        sampleTrack(data, data.tracks[from], time, p) && sampleTrack(data, data.tracks[to], time, q);
+      if (!ok) {
+        mesh.visible = false;
+        return;
+      }
+      a.set(p[0], p[1], p[2]);
+      b.set(q[0], q[1], q[2]);
+      dir.subVectors(b, a);
+      const len = dir.length();
+      mesh.visible = len > 1e-4;
+      if (!mesh.visible) return;
+      mesh.position.addVectors(a, b).multiplyScalar(0.5);
+      mesh.quaternion.setFromUnitVectors(up, dir.divideScalar(len));
+      mesh.scale.set(1, len, 1);
+    });
+  });
+
+  return (
+    <group name="JointSkeleton" renderOrder={10}>
+      {bones.map(([from, to], i) => (
+        <mesh
+          key={`${from}->${to}`}
+          ref={(el) => {
+            boneRefs.current[i] = el;
+          }}
+          geometry={cylinder}
+          renderOrder={10}
+          frustumCulled={false}
+        >
+          <meshBasicMaterial
+            color={sideColor(to)}
+            transparent
+            opacity={opacity * 0.85}
+            depthTest={false}
+            depthWrite={false}
+          />
+        </mesh>
+      ))}
+      {jointKeys.map((key, i) => (
+        <mesh
+          key={key}
+          ref={(el) => {
+            jointRefs.current[i] = el;
+          }}
+          geometry={sphere}
+          renderOrder={11}
+          frustumCulled={false}
+        >
+          <meshBasicMaterial
+            color={sideColor(key)}
+            transparent
+            opacity={opacity}
+            depthTest={false}
+            depthWrite={false}
+          />
+        </mesh>
+      ))}
+    </group>
+  );
+}
@@ -0,0 +1,112 @@
+// src/components/OnionSkin.tsx
+import { useEffect, useMemo } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { clone as cloneSkinned } from "three/examples/jsm/utils/SkeletonUtils.js";
+import { pickClip, useModelAsset } from "../utils/models";
+import type { ClipRef, ModelSource } from "../utils/models";
+
+/** One onion-skin pose: model time plus how to tint it. */
+export type OnionPose = {
+  key: string;
+  time: number;     // model seconds
+  dataTime: number; // sheet seconds (for skeleton-only sessions)
+  color: string;
+  opacity: number;
+};
+
+type Ghost = {
+  root: THREE.Object3D;
+  mixer: THREE.AnimationMixer | null;
+  material: THREE.MeshStandardMaterial;
+};
+
+/**
+ * Translucent copies of the skinned model frozen at other times (frame offsets
+ * or swing events). Each copy is a SkeletonUtils clone with its own mixer so it
+ * can be posed independently of the main model.
+ */
+export default function OnionSkin({
+  source,
+  clip: clipRef,
+  poses,
+  scale,
+}: {
+  source: ModelSource;
+  clip?: ClipRef | null;
+  poses: OnionPose[];
+  scale?: number;
+}) {
+  const asset = useModelAsset(source);
+  const object = asset.object;
+  const clip = pickClip(asset.clips, clipRef);
+  const unitScale = scale ?? asset.scale;
+  const count = poses.length;
+
+  const ghosts = useMemo<Ghost[]>(() => {
+    return Array.from({ length: count }, () => {
+      const root = cloneSkinned(object);
+      root.scale.setScalar(unitScale);
+      root.position.set(0, 0, 0);
+      root.rotation.set(0, 0, 0);
+
+      const material = new THREE.MeshStandardMaterial({
+        roughness: 0.85,
+        metalness: 0,
+        transparent: true,
+        depthWrite: false,
+      });
+      root.traverse((obj) => {
+        const mesh = obj as THREE.Mesh;
+        if (!mesh.isMesh) return;
+        mesh.material = material;
+        mesh.castShadow = false;
+        mesh.receiveShadow = false;
+        mesh.renderOrder = -1;
+      });
+
+      let mixer: THREE.AnimationMixer | null = null;
+      if (clip) {
+        mixer = new THREE.AnimationMixer(root);
+        mixer.clipAction(clip).play();
+      }
+      return { root, mixer, material };
+    });
+  }, [object, clip, count, unitScale]);
+
+  useEffect(() => {
+    return () => {
+      for (const g of ghosts) {
+        g.mixer?.stopAllAction();
+        g.mixer?.uncacheRoot(g.root);
+        g.material.dispose();
+      }
+    };
+  }, [ghosts]);
+
+  useEffect(() => {
+    ghosts.forEach((g, i) => {
+      const p = poses[i];
+      if (!p) return;
+      g.material.color.set(p.color);
+      g.material.opacity = p.opacity;
+    });
+  }, [ghosts, poses]);
+
+  useFrame(() => {
+    const dur = clip?.duration ?? 0;
+    ghosts.forEach((g, i) => {
+      const p = poses[i];
+      if (!g.mixer || !p) return;
+      g.mixer.setTime(dur > 0 ? Math.min(dur, Math.max(0, p.time)) : 0);
+    });
+  });
+
+  return (
+    <group>
+      {ghosts.map((g, i) => (
+        <primitive key={i} object={g.root} />
+      ))}
+    </group>
+  );
+}
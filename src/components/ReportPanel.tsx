@@ -0,0 +1,94 @@
+// src/components/ReportPanel.tsx
+import { useState } from "react";
+import type { CSSProperties } from "react";
+import ChannelPicker from "./ChannelPicker";
+
+export type ReportOptions = {
+  channels: string[];
+  stills: boolean;
+  notes: string;
+};
+
+/**
+ * Options card for the standalone HTML session report (channels to plot,
+ * 3D stills at the swing events, free-text notes).
+ */
+export default function ReportPanel({
+  channels,
+  initialChannels,
+  format,
+  onGenerate,
+  onClose,
+  style,
+}: {
+  channels: string[];
+  initialChannels: string[];
+  format?: (k: string) => string;
+  onGenerate: (opts: ReportOptions) => Promise<void>;
+  onClose: () => void;
+  style?: CSSProperties;
+}) {
+  const [selected, setSelected] = useState<string[]>(initialChannels);
+  const [stills, setStills] = useState(true);
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run() {
+    setBusy(true);
+    setError(null);
+    try {
+      await onGenerate({ channels: selected, stills, notes });
+    } catch (err) {
+      console.error("Report failed:", err);
+      setError((err as Error)?.message ?? String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{
+        padding: "10px 12px",
+        width: 300,
+        color: "var(--text)",
+        fontSize: 12,
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        ...style,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+        <span style={{ fontWeight: 700, letterSpacing: "0.04em" }}>Session report</span>
+        <button className="btn ghost" style={{ height: 24, padding: "0 8px" }} onClick={onClose} disabled={busy}>
+          ✕
+        </button>
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <span className="small">Graphs</span>
+        <ChannelPicker channels={channels} selected={selected} onChange={setSelected} format={format} max={8} />
+      </div>
+      <label className="toggle">
+        <input type="checkbox" checked={stills} onChange={(e) => setStills(e.target.checked)} disabled={busy} />
+        <span>3D stills at swing events</span>
+      </label>
+      <textarea
+        className="input"
+        placeholder="Coach notes (optional)"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={4}
+        style={{ resize: "vertical", fontFamily: "inherit" }}
+        disabled={busy}
+      />
+      {error && <span style={{ color: "#ef4444" }}>{error}</span>}
+      <button className="btn primary" onClick={run} disabled={busy}>
+        {busy ? "Building…" : "Download HTML"}
+      </button>
+    </div>
+  );
+}
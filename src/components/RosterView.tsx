@@ -0,0 +1,125 @@
+// src/components/RosterView.tsx
+import { useMemo, useState } from "react";
+import type { CSSProperties } from "react";
+import { rosterMeta, searchRoster } from "../utils/roster";
+import type { RosterEntry } from "../utils/roster";
+import { THEME_CSS } from "./theme";
+
+/** Session cards shown per player before "+N more" */
+const SESSION_PREVIEW = 6;
+
+/**
+ * Landing page: searchable list of players from players.json with their
+ * sessions as cards. Picking a session (or the player) opens the viewer.
+ */
+export default function RosterView({
+  roster,
+  logo,
+  onOpen,
+}: {
+  /** null while loading */
+  roster: RosterEntry[] | null;
+  logo?: string;
+  onOpen: (player: string, session: string | null) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const visible = useMemo(() => (roster ? searchRoster(roster, query) : []), [roster, query]);
+
+  const card: CSSProperties = {
+    padding: "12px 14px",
+    display: "flex",
+    flexDirection: "column",
+    gap: 8,
+    color: "var(--text)",
+    fontSize: 12,
+  };
+
+  return (
+    <div
+      style={{
+        width: "100vw",
+        height: "100vh",
+        overflowY: "auto",
+        background: "var(--bg-0)",
+        ["--brand-img" as string]: "40px",
+        ["--brand-text" as string]: "20px",
+      }}
+    >
+      <div style={{ maxWidth: 1040, margin: "0 auto", padding: "24px 20px", display: "flex", flexDirection: "column", gap: 16 }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 16, flexWrap: "wrap" }}>
+          <div className="brand" aria-label="Sequence">
+            {logo && <img src={logo} alt="Sequence logo" />}
+            <span className="name">SEQUENCE</span>
+          </div>
+          <input
+            className="select"
+            placeholder="Search players, teams, positions…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            style={{ flex: 1, minWidth: 220 }}
+            autoFocus
+          />
+        </div>
+
+        {roster == null && <span className="small">Loading roster…</span>}
+        {roster && visible.length === 0 && (
+          <span className="small">{roster.length ? `No players match “${query}”.` : "No players yet."}</span>
+        )}
+
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(300px, 1fr))", gap: 12 }}>
+          {visible.map((e) => {
+            const sessions = [...(e.sessions ?? [])].reverse(); // newest first
+            const open = expanded[e.player];
+            const shown = open ? sessions : sessions.slice(0, SESSION_PREVIEW);
+            const meta = rosterMeta(e);
+            const count = e.sessionCount ?? e.sessions?.length;
+            return (
+              <div key={e.player} className="panel-wrap" style={card}>
+                <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between", gap: 8 }}>
+                  <button
+                    className="btn ghost"
+                    style={{ fontSize: 15, fontWeight: 700, padding: 0, height: "auto" }}
+                    onClick={() => onOpen(e.player, e.defaultSession ?? null)}
+                    title="Open the latest session"
+                  >
+                    {e.player}
+                  </button>
+                  {meta && <span className="small">{meta}</span>}
+                </div>
+                <span className="small">
+                  {count != null ? `${count} session${count === 1 ? "" : "s"}` : "Sessions unknown"}
+                  {e.lastSession ? ` · last ${e.lastSession}` : ""}
+                </span>
+                {shown.length > 0 && (
+                  <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+                    {shown.map((s) => (
+                      <button
+                        key={s}
+                        className={`btn${s === e.defaultSession ? " primary" : ""}`}
+                        style={{ height: 28 }}
+                        onClick={() => onOpen(e.player, s)}
+                      >
+                        {s}
+                      </button>
+                    ))}
+                    {sessions.length > SESSION_PREVIEW && (
+                      <button
+                        className="btn ghost"
+                        style={{ height: 28 }}
+                        onClick={() => setExpanded((x) => ({ ...x, [e.player]: !open }))}
+                      >
+                        {open ? "Fewer" : `+${sessions.length - SESSION_PREVIEW} more`}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <style>{THEME_CSS}</style>
+    </div>
+  );
+}
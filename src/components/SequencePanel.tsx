@@ -0,0 +1,94 @@
+// src/components/SequencePanel.tsx
+import type { CSSProperties } from "react";
+import type { SequenceResult } from "../utils/sequence";
+
+/**
+ * Summary card for the kinematic sequence: peak speed and time per segment,
+ * the gap to the previous segment and a proximal→distal verdict.
+ * Clicking a row seeks playback to that peak.
+ */
+export default function SequencePanel({
+  result,
+  onSeek,
+  style,
+}: {
+  result: SequenceResult;
+  onSeek?: (tData: number) => void;
+  style?: CSSProperties;
+}) {
+  const gapTo = new Map(result.gaps.map((g) => [g.to, g.dt]));
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{
+        padding: "10px 12px",
+        minWidth: 240,
+        color: "var(--text)",
+        fontSize: 12,
+        ...style,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+        <span style={{ fontWeight: 700, letterSpacing: "0.04em" }}>Kinematic Sequence</span>
+        <span
+          className="pill"
+          style={{
+            height: 22,
+            padding: "0 8px",
+            color: result.inOrder ? "#a3e635" : "#ef4444",
+            borderColor: result.inOrder ? "rgba(163,230,53,0.45)" : "rgba(239,68,68,0.45)",
+          }}
+          title={result.inOrder ? "Peaks rise pelvis → torso → arm → hand" : "Peaks are out of proximal-to-distal order"}
+        >
+          {result.inOrder ? "In order" : "Out of order"}
+        </span>
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ color: "var(--muted)", textAlign: "left" }}>
+            <th style={{ fontWeight: 500, paddingBottom: 4 }}>Segment</th>
+            <th style={{ fontWeight: 500, paddingBottom: 4, textAlign: "right" }}>Peak</th>
+            <th style={{ fontWeight: 500, paddingBottom: 4, textAlign: "right" }}>Time</th>
+            <th style={{ fontWeight: 500, paddingBottom: 4, textAlign: "right" }}>Gap</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.segments.map((s) => {
+            const gap = gapTo.get(s.id);
+            return (
+              <tr
+                key={s.id}
+                onClick={() => onSeek?.(s.t)}
+                style={{ cursor: onSeek ? "pointer" : "default" }}
+                title="Jump to peak"
+              >
+                <td style={{ padding: "3px 0" }}>
+                  <span
+                    style={{
+                      display: "inline-block",
+                      width: 8,
+                      height: 8,
+                      borderRadius: "50%",
+                      background: s.color,
+                      marginRight: 6,
+                    }}
+                  />
+                  {s.label}
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  {s.peak.toFixed(s.unit === "m/s" ? 1 : 0)} <span style={{ opacity: 0.7 }}>{s.unit}</span>
+                </td>
+                <td style={{ textAlign: "right" }}>{s.t.toFixed(3)}s</td>
+                <td style={{ textAlign: "right", color: gap != null && gap < 0 ? "#ef4444" : undefined }}>
+                  {gap == null ? "—" : `${gap >= 0 ? "+" : ""}${Math.round(gap * 1000)} ms`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,20 +1,87 @@
-import React, { useMemo, useRef, useState, useEffect, useCallback } from "react";
+import React, { useMemo, useRef, useState, useEffect, useCallback, useId } from "react";
+import { seriesColor } from "../utils/colors";
+import { pointsTrace, traceDuration } from "../utils/sessionData";
+import type { ChannelTrace } from "../utils/sessionData";
 
 type SeriesPoint = { t?: number; value: number };
 
+/** Points, or a channel straight from the session's columns (drawn without copying). */
+export type GraphData = SeriesPoint[] | ChannelTrace;
+
+/** Vertical marker at a JSON-domain time (e.g. a sequence peak); clicking it seeks there. */
+export type GraphMarker = { t: number; label?: string; color?: string };
+
+/** One trace in a multi-series chart. Colour defaults to the palette by index. */
+export type GraphSeries = { id: string; label: string; data: GraphData; color?: string };
+
+/** "zscore" and "minmax" rescale each series so different units share one axis. */
+export type GraphNormalize = "none" | "zscore" | "minmax";
+
+/** [start, end] in JSON-domain seconds. */
+export type GraphRange = [number, number];
+
+/** Shaded span in JSON-domain seconds (e.g. a data-quality problem); the label shows on hover. */
+export type GraphRegion = { t0: number; t1: number; color?: string; label?: string };
+
 interface Props {
-  data: SeriesPoint[];
+  data?: GraphData;         // single-series shorthand (drawn in brand orange)
+  series?: GraphSeries[];   // takes precedence over `data`
+  normalize?: GraphNormalize;
   time: number;             // FBX time (s)
   jsonDuration: number;     // duration of the JSON series (s)
   fbxDuration: number;      // duration of the FBX (s)
+  dataTime?: number;        // playhead in JSON seconds (explicit sync); axis then reads JSON seconds
   height?: number;          // default 180
   title?: string;
   yLabel?: string;          // shown under the title
   onSeek?: (tJson: number) => void;
+  markers?: GraphMarker[];
+  regions?: GraphRegion[];
+  selection?: GraphRange | null;                        // controlled brush range
+  onSelectionChange?: (range: GraphRange | null) => void;
 }
 
+/** Narrowest zoom window as a fraction of the full domain. */
+const MIN_VIEW_FRAC = 0.005;
+/** Brushes narrower than this (px) count as clicks. */
+const MIN_BRUSH_PX = 4;
+
 /* ---- helpers ---- */
 
+const EMPTY_TRACE: ChannelTrace = { t: [], v: [], t0: 0, start: 0, end: 0 };
+
+function asTrace(data: GraphData): ChannelTrace {
+  return Array.isArray(data) ? pointsTrace(data) : data;
+}
+
+function normalizeSeries(data: ChannelTrace, mode: GraphNormalize): ChannelTrace {
+  if (mode === "none" || data.end <= data.start) return data;
+  let min = Infinity, max = -Infinity, sum = 0, n = 0;
+  for (let i = data.start; i < data.end; i++) {
+    const v = data.v[i];
+    if (!Number.isFinite(v)) continue;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+    sum += v;
+    n++;
+  }
+  if (n === 0) return data;
+  const rescale = (fn: (v: number) => number): ChannelTrace => {
+    const v = new Float64Array(data.end).fill(NaN);
+    for (let i = data.start; i < data.end; i++) v[i] = fn(data.v[i]);
+    return { ...data, v };
+  };
+  if (mode === "minmax") {
+    const span = max - min || 1;
+    return rescale((v) => (v - min) / span);
+  }
+  const mean = sum / n;
+  let sq = 0;
+  for (let i = data.start; i < data.end; i++) if (Number.isFinite(data.v[i])) sq += (data.v[i] - mean) ** 2;
+  const sd = Math.sqrt(sq / n) || 1;
+  return rescale((v) => (v - mean) / sd);
+}
+
 function useMeasure<T extends HTMLElement>() {
   const ref = useRef<T | null>(null);
   const [rect, setRect] = useState<DOMRect | null>(null);
@@ -28,60 +95,111 @@ function useMeasure<T extends HTMLElement>() {
   return { ref, rect };
 }
 
-function nearestIndexByT(arr: SeriesPoint[], t: number) {
-  let lo = 0, hi = arr.length - 1;
-  if (hi <= 0) return 0;
+function nearestIndexByT(tr: ChannelTrace, t: number) {
+  const target = t + tr.t0;
+  let lo = tr.start, hi = tr.end - 1;
+  if (hi <= lo) return lo;
   while (lo < hi) {
     const mid = (lo + hi) >>> 1;
-    const mt = arr[mid].t ?? 0;
-    if (mt < t) lo = mid + 1;
+    if (tr.t[mid] < target) lo = mid + 1;
     else hi = mid;
   }
-  const j = lo;
-  const i = Math.max(0, Math.min(arr.length - 1, j));
-  const iPrev = Math.max(0, i - 1);
-  const dt1 = Math.abs((arr[i].t ?? 0) - t);
-  const dt0 = Math.abs((arr[iPrev].t ?? 0) - t);
+  const i = lo;
+  const iPrev = Math.max(tr.start, i - 1);
+  const dt1 = Math.abs(tr.t[i] - target);
+  const dt0 = Math.abs(tr.t[iPrev] - target);
   return dt0 <= dt1 ? iPrev : i;
 }
 
+/** Value of the sample nearest `t` (trace seconds), or null over a gap. */
+function valueAt(tr: ChannelTrace, t: number): number | null {
+  if (tr.end <= tr.start) return null;
+  const v = tr.v[nearestIndexByT(tr, t)];
+  return Number.isFinite(v) ? v : null;
+}
+
 /* ---- component ---- */
 
 const SimpleGraph: React.FC<Props> = ({
-  data,
+  data: singleData,
+  series,
+  normalize = "none",
   time,
   jsonDuration,
   fbxDuration,
+  dataTime,
   height = 180,
   title,
   yLabel = "Value",
   onSeek,
+  markers,
+  regions,
+  selection,
+  onSelectionChange,
 }) => {
   const { ref, rect } = useMeasure<HTMLDivElement>();
+  const clipId = `sg-clip-${useId().replace(/:/g, "")}`;
+
+  /* ------------------------- Series -------------------------- */
+  const traces = useMemo(() => {
+    const list: GraphSeries[] = series ?? (singleData ? [{ id: "main", label: yLabel, data: singleData }] : []);
+    return list.map((sr, i) => ({
+      ...sr,
+      color: sr.color ?? seriesColor(i),
+      data: normalizeSeries(asTrace(sr.data), normalize),
+    }));
+  }, [series, singleData, yLabel, normalize]);
+
+  // Longest trace drives the x domain / hover lookup when no JSON duration is given
+  const data = useMemo(
+    () =>
+      traces.reduce<ChannelTrace>(
+        (best, tr) => (tr.data.end - tr.data.start > best.end - best.start ? tr.data : best),
+        EMPTY_TRACE
+      ),
+    [traces]
+  );
+  const multi = traces.length > 1;
 
   /* ---------------------- X & Y domains ---------------------- */
   // JSON domain drives drawing & interaction
-  const xMin = 0;
-  const xMax = jsonDuration > 0
+  const fullMax = jsonDuration > 0
     ? jsonDuration
-    : Math.max(0, (data.length ? (data[data.length - 1].t ?? 0) : 0));
-
-  // FBX seconds used for axis labels and playhead readout
+    : traceDuration(data);
+
+  // Zoom window (null = full domain); reset when the domain changes
+  const [view, setView] = useState<GraphRange | null>(null);
+  useEffect(() => setView(null), [fullMax]);
+  const xMin = view ? view[0] : 0;
+  const xMax = view ? view[1] : fullMax;
+  const zoomed = view != null;
+
+  // Brush selection: controlled when `selection` is passed, local otherwise
+  const [localSel, setLocalSel] = useState<GraphRange | null>(null);
+  const sel = selection !== undefined ? selection : localSel;
+  const setSel = useCallback((r: GraphRange | null) => {
+    if (selection === undefined) setLocalSel(r);
+    onSelectionChange?.(r);
+  }, [selection, onSelectionChange]);
+
+  // FBX seconds used for axis labels and playhead readout (JSON seconds when synced explicitly)
   const labelSeconds = useMemo(() => {
-    return (fbxDuration && Number.isFinite(fbxDuration) && fbxDuration > 0)
+    return (dataTime == null && fbxDuration && Number.isFinite(fbxDuration) && fbxDuration > 0)
       ? fbxDuration
-      : xMax; // fall back to JSON time if FBX unknown
-  }, [fbxDuration, xMax]);
+      : fullMax; // fall back to JSON time if FBX unknown
+  }, [dataTime, fbxDuration, fullMax]);
 
-  // y domain
+  // y domain (across all traces)
   const { yMin, yMax } = useMemo(() => {
-    if (!data || data.length === 0) return { yMin: 0, yMax: 1 };
+    if (data.end <= data.start) return { yMin: 0, yMax: 1 };
     let min = Infinity, max = -Infinity;
-    for (const d of data) {
-      const v = d.value;
-      if (Number.isFinite(v)) {
-        if (v < min) min = v;
-        if (v > max) max = v;
+    for (const { data: tr } of traces) {
+      for (let i = tr.start; i < tr.end; i++) {
+        const v = tr.v[i];
+        if (Number.isFinite(v)) {
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
       }
     }
     if (!Number.isFinite(min) || !Number.isFinite(max)) return { yMin: 0, yMax: 1 };
@@ -91,7 +209,7 @@ const SimpleGraph: React.FC<Props> = ({
     }
     const pad = (max - min) * 0.08;
     return { yMin: min - pad, yMax: max + pad };
-  }, [data]);
+  }, [data, traces]);
 
   /* -------------------------- Ticks -------------------------- */
   const yTicks = useMemo(() => {
@@ -107,15 +225,17 @@ const SimpleGraph: React.FC<Props> = ({
   const xTicks = useMemo(() => {
     const n = 5;
     const res: { jsonT: number; labelSec: number }[] = [];
-    if (xMax <= xMin) return res;
+    if (xMax <= xMin || fullMax <= 0) return res;
     for (let i = 0; i <= n; i++) {
       const tJson = xMin + (i / n) * (xMax - xMin);
-      const frac = (tJson - xMin) / (xMax - xMin);
+      const frac = tJson / fullMax;
       const tFbx = frac * (labelSeconds || 0);
       res.push({ jsonT: tJson, labelSec: tFbx });
     }
     return res;
-  }, [xMin, xMax, labelSeconds]);
+  }, [xMin, xMax, fullMax, labelSeconds]);
+  // More decimals once zoomed into a sub-second window
+  const xDecimals = fullMax > 0 && ((xMax - xMin) / fullMax) * (labelSeconds || 0) < 0.5 ? 3 : 2;
 
   /* -------------------- Layout & transforms ------------------- */
   const tickStrings = yTicks.map((v) => v.toFixed(2));
@@ -149,26 +269,58 @@ const SimpleGraph: React.FC<Props> = ({
   }, [yMin, yMax, innerH, margin.top]);
 
   /* ------------------------- Geometry ------------------------- */
-  const pathD = useMemo(() => {
-    if (!data || data.length === 0) return "";
-    let d = "";
-    for (let i = 0; i < data.length; i++) {
-      const t = data[i].t ?? (i / Math.max(1, data.length - 1)) * (xMax - xMin);
-      const x = xToPx(t);
-      const y = yToPx(data[i].value);
-      d += (i === 0 ? `M ${x} ${y}` : ` L ${x} ${y}`);
-    }
-    return d;
-  }, [data, xToPx, yToPx, xMax, xMin]);
+  const paths = useMemo(() => {
+    return traces.map((tr) => {
+      const { t, v, t0, start, end } = tr.data;
+      let d = "";
+      // Missing samples are bridged, as when they were dropped from the points
+      for (let i = start; i < end; i++) {
+        if (!Number.isFinite(v[i]) || !Number.isFinite(t[i])) continue;
+        const x = xToPx(t[i] - t0);
+        const y = yToPx(v[i]);
+        d += (d === "" ? `M ${x} ${y}` : ` L ${x} ${y}`);
+      }
+      return { id: tr.id, color: tr.color, d };
+    });
+  }, [traces, xToPx, yToPx]);
 
-  // current playhead: convert FBX time → JSON time proportionally
-  const currentJsonTime = (fbxDuration > 0 && xMax > 0) ? (time / fbxDuration) * xMax : time;
+  // current playhead: given by the caller's sync, else FBX time → JSON time proportionally
+  const currentJsonTime = dataTime ?? ((fbxDuration > 0 && fullMax > 0) ? (time / fbxDuration) * fullMax : time);
+  const playheadVisible = currentJsonTime >= xMin && currentJsonTime <= xMax;
   const playheadX = xToPx(Math.min(xMax, Math.max(xMin, currentJsonTime)));
 
+  /* ---------------------- Zoom / pan helpers ------------------- */
+  const clampView = useCallback((lo: number, hi: number): GraphRange | null => {
+    if (fullMax <= 0) return null;
+    const span = Math.max(fullMax * MIN_VIEW_FRAC, hi - lo);
+    if (span >= fullMax) return null;
+    const start = Math.min(fullMax - span, Math.max(0, lo));
+    return [start, start + span];
+  }, [fullMax]);
+
+  // Zoom by `factor` (>1 = out) keeping `anchor` (JSON s) under the cursor
+  const zoomAt = useCallback((anchor: number, factor: number) => {
+    const span = xMax - xMin;
+    if (span <= 0) return;
+    const next = span * factor;
+    const lo = anchor - (anchor - xMin) * (next / span);
+    setView(clampView(lo, lo + next));
+  }, [xMin, xMax, clampView]);
+
+  const panBy = useCallback((dtJson: number) => {
+    if (!zoomed) return;
+    setView(clampView(xMin + dtJson, xMax + dtJson));
+  }, [zoomed, xMin, xMax, clampView]);
+
+  const zoomToSelection = useCallback(() => {
+    if (sel) setView(clampView(sel[0], sel[1]));
+  }, [sel, clampView]);
+
   /* -------------------- Hover / interaction ------------------- */
   const [hoverX, setHoverX] = useState<number | null>(null);
   const [hoverT, setHoverT] = useState<number | null>(null);
   const [hoverVal, setHoverVal] = useState<number | null>(null);
+  const [hoverVals, setHoverVals] = useState<Array<{ label: string; color: string; value: number }>>([]);
 
   const updateHover = useCallback((clientX: number, clientY: number) => {
     if (!ref.current) return;
@@ -181,33 +333,72 @@ const SimpleGraph: React.FC<Props> = ({
       localY < margin.top ||
       localY > height - margin.bottom
     ) {
-      setHoverX(null); setHoverT(null); setHoverVal(null);
+      setHoverX(null); setHoverT(null); setHoverVal(null); setHoverVals([]);
       return;
     }
     const tJson = pxToX(localX);
-    let val: number | null = null;
-    if (data && data.length > 0) {
-      const idx = nearestIndexByT(data, tJson);
-      val = data[idx]?.value ?? null;
-    }
+    const val = valueAt(data, tJson);
+    const vals = multi
+      ? traces
+          .map((tr) => ({ label: tr.label, color: tr.color, value: valueAt(tr.data, tJson) }))
+          .filter((v): v is { label: string; color: string; value: number } => v.value != null)
+      : [];
     setHoverX(localX);
     setHoverT(tJson);
     setHoverVal(val);
-  }, [ref, margin, width, height, pxToX, data]);
+    setHoverVals(vals);
+  }, [ref, margin, width, height, pxToX, data, traces, multi]);
 
   const clearHover = useCallback(() => {
-    setHoverX(null); setHoverT(null); setHoverVal(null);
+    setHoverX(null); setHoverT(null); setHoverVal(null); setHoverVals([]);
   }, []);
 
   const downRef = useRef(false);
 
+  // Active gesture on the plot area
+  const gestureRef = useRef<
+    | { kind: "scrub" }
+    | { kind: "brush"; anchor: number }
+    | { kind: "pan"; startX: number; view: GraphRange }
+    | { kind: "pinch"; dist: number }
+    | null
+  >(null);
+  const touchesRef = useRef(new Map<number, number>()); // pointerId → clientX
+  const [draftSel, setDraftSel] = useState<GraphRange | null>(null);
+
+  const localXOf = useCallback((clientX: number) => {
+    const box = ref.current?.getBoundingClientRect();
+    return box ? clientX - box.left : 0;
+  }, [ref]);
+
+  // Wheel zoom (trackpad pinch arrives as ctrl+wheel); horizontal wheel pans.
+  // Attached natively because React's wheel listener is passive.
+  const wheelRef = useRef<(e: WheelEvent) => void>(() => {});
+  wheelRef.current = (e: WheelEvent) => {
+    const lx = localXOf(e.clientX);
+    if (lx < margin.left || lx > width - margin.right || fullMax <= 0) return;
+    e.preventDefault();
+    if (Math.abs(e.deltaX) > Math.abs(e.deltaY) && !e.ctrlKey) {
+      panBy((e.deltaX / innerW) * (xMax - xMin));
+      return;
+    }
+    zoomAt(pxToX(lx), Math.exp(e.deltaY * (e.ctrlKey ? 0.01 : 0.0015)));
+  };
+  const hasData = data.end > data.start;
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => wheelRef.current(e);
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [ref, hasData]);
+
   /* -------------------------- Tooltip ------------------------- */
   const hoverLabelSec = useMemo(() => {
     if (hoverT == null) return null;
-    if (xMax <= xMin) return 0;
-    const frac = (hoverT - xMin) / (xMax - xMin);
-    return frac * (labelSeconds || 0);
-  }, [hoverT, xMin, xMax, labelSeconds]);
+    if (fullMax <= 0) return 0;
+    return (hoverT / fullMax) * (labelSeconds || 0);
+  }, [hoverT, fullMax, labelSeconds]);
 
   const tooltip = useMemo(() => {
     if (hoverX == null || hoverT == null || hoverVal == null) return null;
@@ -233,10 +424,13 @@ const SimpleGraph: React.FC<Props> = ({
     return { style, text: label, cx: px, cy: py };
   }, [hoverX, hoverT, hoverVal, hoverLabelSec, yToPx, margin.left, margin.top, innerW, width]);
 
-  if (!data || data.length === 0) {
+  if (!hasData) {
     return <div ref={ref} style={{ width: "100%", height }} />;
   }
 
+  const shownSel = draftSel ?? sel;
+  const controlBtn: React.CSSProperties = { height: 22, padding: "0 8px", fontSize: 11 };
+
   /* --------------------------- Render -------------------------- */
   return (
     <div ref={ref} style={{ width: "100%", height, position: "relative" }}>
@@ -307,32 +501,116 @@ const SimpleGraph: React.FC<Props> = ({
                 fill="#9fb1c7"
                 fontSize={11}
               >
-                {labelSec.toFixed(2)}s
+                {labelSec.toFixed(xDecimals)}s
               </text>
             </g>
           );
         })}
 
-        {/* Signal */}
-        <path
-          d={pathD}
-          fill="none"
-          stroke="#e5812b"
-          strokeWidth={2}
-          strokeLinejoin="round"
-          strokeLinecap="round"
-        />
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={margin.left} y={margin.top} width={innerW} height={innerH} />
+          </clipPath>
+        </defs>
+
+        {/* Shaded regions (behind the selection and signals) */}
+        {regions?.map((r, i) => {
+          if (r.t1 < xMin || r.t0 > xMax) return null;
+          const x0 = xToPx(Math.max(xMin, r.t0));
+          const x1 = xToPx(Math.min(xMax, r.t1));
+          return (
+            <rect
+              key={`rg-${i}`}
+              x={Math.min(x0, (x0 + x1) / 2 - 1)}
+              y={margin.top}
+              width={Math.max(2, x1 - x0)}
+              height={innerH}
+              fill={r.color ?? "#ef4444"}
+              opacity={0.16}
+            >
+              {r.label && <title>{r.label}</title>}
+            </rect>
+          );
+        })}
+
+        {/* Selected range */}
+        {shownSel && shownSel[1] > xMin && shownSel[0] < xMax && (() => {
+          const x0 = xToPx(Math.max(xMin, shownSel[0]));
+          const x1 = xToPx(Math.min(xMax, shownSel[1]));
+          return (
+            <g>
+              <rect
+                x={x0}
+                y={margin.top}
+                width={Math.max(1, x1 - x0)}
+                height={innerH}
+                fill="rgba(229,129,43,0.14)"
+              />
+              {[shownSel[0], shownSel[1]].map((t, i) =>
+                t >= xMin && t <= xMax ? (
+                  <line
+                    key={`sel-${i}`}
+                    x1={xToPx(t)}
+                    x2={xToPx(t)}
+                    y1={margin.top}
+                    y2={height - margin.bottom}
+                    stroke="#e5812b"
+                    strokeWidth={1}
+                    opacity={0.8}
+                  />
+                ) : null
+              )}
+            </g>
+          );
+        })()}
+
+        {/* Signals */}
+        <g clipPath={`url(#${clipId})`}>
+          {paths.map((p) => (
+            <path
+              key={p.id}
+              d={p.d}
+              fill="none"
+              stroke={p.color}
+              strokeWidth={multi ? 1.6 : 2}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+              opacity={multi ? 0.92 : 1}
+            />
+          ))}
+        </g>
+
+        {/* Markers */}
+        {markers?.map((m, i) => {
+          if (m.t < xMin || m.t > xMax) return null;
+          const x = xToPx(m.t);
+          return (
+            <line
+              key={`ml-${i}`}
+              x1={x}
+              x2={x}
+              y1={margin.top}
+              y2={height - margin.bottom}
+              stroke={m.color ?? "#cfd6e2"}
+              strokeWidth={1}
+              strokeDasharray="2 3"
+              opacity={0.8}
+            />
+          );
+        })}
 
         {/* Playhead (aligned to FBX seconds but positioned in JSON domain) */}
-        <line
-          x1={playheadX}
-          x2={playheadX}
-          y1={margin.top}
-          y2={height - margin.bottom}
-          stroke="#ffffff"
-          strokeWidth={1.2}
-          opacity={0.9}
-        />
+        {playheadVisible && (
+          <line
+            x1={playheadX}
+            x2={playheadX}
+            y1={margin.top}
+            y2={height - margin.bottom}
+            stroke="#ffffff"
+            strokeWidth={1.2}
+            opacity={0.9}
+          />
+        )}
 
         {/* Hover line (dotted) */}
         {hoverX != null && (
@@ -349,47 +627,198 @@ const SimpleGraph: React.FC<Props> = ({
         )}
 
         {/* Hover marker */}
-        {tooltip && (
-          <circle cx={tooltip.cx} cy={tooltip.cy} r={3.5} fill="#e5812b" stroke="#fff" strokeWidth={1} />
+        {tooltip && !multi && (
+          <circle cx={tooltip.cx} cy={tooltip.cy} r={3.5} fill={traces[0]?.color ?? "#e5812b"} stroke="#fff" strokeWidth={1} />
         )}
+        {tooltip && multi && hoverVals.map((v, i) => (
+          <circle key={`hv-${i}`} cx={tooltip.cx} cy={yToPx(v.value)} r={3} fill={v.color} stroke="#fff" strokeWidth={1} />
+        ))}
 
-        {/* Interaction layer */}
+        {/* Interaction layer: drag = scrub, Shift+drag = select range,
+            Alt/middle drag = pan, wheel/pinch = zoom, double-click = reset */}
         <rect
           x={margin.left}
           y={margin.top}
           width={innerW}
           height={innerH}
           fill="transparent"
-          style={{ cursor: "crosshair" }}
+          style={{ cursor: zoomed ? "grab" : "crosshair", touchAction: "none" }}
           onPointerDown={(e) => {
-            downRef.current = true;
             (e.currentTarget as Element).setPointerCapture(e.pointerId);
+            const lx = localXOf(e.clientX);
+            if (e.pointerType === "touch") {
+              touchesRef.current.set(e.pointerId, e.clientX);
+              if (touchesRef.current.size === 2) {
+                const [a, b] = [...touchesRef.current.values()];
+                gestureRef.current = { kind: "pinch", dist: Math.abs(a - b) };
+                downRef.current = false;
+                return;
+              }
+            }
+            downRef.current = true;
+            if (e.button === 1 || e.altKey) {
+              gestureRef.current = { kind: "pan", startX: lx, view: [xMin, xMax] };
+              return;
+            }
+            if (e.shiftKey) {
+              const t = pxToX(lx);
+              gestureRef.current = { kind: "brush", anchor: t };
+              setDraftSel([t, t]);
+              return;
+            }
+            gestureRef.current = { kind: "scrub" };
             updateHover(e.clientX, e.clientY);
-            if (onSeek && hoverT != null) onSeek(hoverT);
+            onSeek?.(pxToX(lx));
           }}
           onPointerMove={(e) => {
             updateHover(e.clientX, e.clientY);
-            if (downRef.current && onSeek && hoverT != null) onSeek(hoverT);
+            const g = gestureRef.current;
+            if (!g) return;
+            const lx = localXOf(e.clientX);
+            if (g.kind === "pinch") {
+              if (!touchesRef.current.has(e.pointerId)) return;
+              touchesRef.current.set(e.pointerId, e.clientX);
+              const [a, b] = [...touchesRef.current.values()];
+              const dist = Math.abs(a - b);
+              if (g.dist > 8 && dist > 8) {
+                zoomAt(pxToX(localXOf((a + b) / 2)), g.dist / dist);
+                gestureRef.current = { kind: "pinch", dist };
+              }
+            } else if (g.kind === "pan") {
+              const dt = ((g.startX - lx) / innerW) * (g.view[1] - g.view[0]);
+              setView(clampView(g.view[0] + dt, g.view[1] + dt));
+            } else if (g.kind === "brush") {
+              const t = pxToX(lx);
+              setDraftSel(t < g.anchor ? [t, g.anchor] : [g.anchor, t]);
+            } else if (downRef.current) {
+              onSeek?.(pxToX(lx));
+            }
           }}
           onPointerUp={(e) => {
-            downRef.current = false;
             (e.currentTarget as Element).releasePointerCapture(e.pointerId);
+            touchesRef.current.delete(e.pointerId);
+            const g = gestureRef.current;
+            if (g?.kind === "brush" && draftSel) {
+              const wide = xToPx(draftSel[1]) - xToPx(draftSel[0]) >= MIN_BRUSH_PX;
+              setSel(wide ? draftSel : null);
+            }
+            downRef.current = false;
+            gestureRef.current = null;
+            setDraftSel(null);
           }}
           onPointerLeave={() => {
-            downRef.current = false;
-            clearHover();
+            if (!gestureRef.current) clearHover();
           }}
-          onPointerCancel={() => {
+          onPointerCancel={(e) => {
+            touchesRef.current.delete(e.pointerId);
             downRef.current = false;
+            gestureRef.current = null;
+            setDraftSel(null);
             clearHover();
           }}
-        />
+          onDoubleClick={() => setView(null)}
+        >
+          <title>Drag to scrub · Shift+drag to select · Alt+drag to pan · Wheel to zoom · Double-click to reset</title>
+        </rect>
       </svg>
 
+      {/* Marker flags sit above the interaction layer so they stay clickable */}
+      {markers?.map((m, i) => {
+        if (m.t < xMin || m.t > xMax) return null;
+        const x = xToPx(m.t);
+        const color = m.color ?? "#cfd6e2";
+        return (
+          <button
+            key={`mk-${i}`}
+            type="button"
+            onClick={() => onSeek?.(m.t)}
+            title={m.label}
+            style={{
+              position: "absolute",
+              left: Math.round(x - 5),
+              top: margin.top - 6,
+              width: 10,
+              height: 10,
+              padding: 0,
+              borderRadius: "50%",
+              border: "1px solid rgba(255,255,255,0.85)",
+              background: color,
+              cursor: onSeek ? "pointer" : "default",
+              zIndex: 1,
+            }}
+          />
+        );
+      })}
+
+      {/* Zoom / selection controls */}
+      {(zoomed || sel) && (
+        <div
+          style={{
+            position: "absolute",
+            right: margin.right + 4,
+            bottom: margin.bottom + 4,
+            display: "flex",
+            gap: 4,
+            zIndex: 2,
+          }}
+        >
+          {sel && (
+            <button type="button" className="btn" style={controlBtn} onClick={zoomToSelection}>
+              Zoom to selection
+            </button>
+          )}
+          {sel && (
+            <button type="button" className="btn ghost" style={controlBtn} onClick={() => setSel(null)} title="Clear selection">
+              Clear
+            </button>
+          )}
+          {zoomed && (
+            <button type="button" className="btn ghost" style={controlBtn} onClick={() => setView(null)}>
+              Reset zoom
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Legend */}
+      {multi && (
+        <div
+          style={{
+            position: "absolute",
+            top: 6,
+            right: margin.right,
+            maxWidth: "60%",
+            display: "flex",
+            flexWrap: "wrap",
+            justifyContent: "flex-end",
+            gap: "2px 10px",
+            fontSize: 11,
+            color: "#cfd6e2",
+            pointerEvents: "none",
+          }}
+        >
+          {traces.map((tr) => (
+            <span key={tr.id} style={{ display: "inline-flex", alignItems: "center", gap: 4, whiteSpace: "nowrap" }}>
+              <span style={{ width: 10, height: 2, background: tr.color, borderRadius: 1 }} />
+              {tr.label}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Tooltip */}
       {tooltip && (
         <div style={tooltip.style}>
-          <div style={{ fontWeight: 700 }}>{tooltip.text.split(" @ ")[0]}</div>
+          {multi ? (
+            hoverVals.map((v, i) => (
+              <div key={i} style={{ color: v.color }}>
+                <span style={{ fontWeight: 700 }}>{v.value.toFixed(2)}</span>{" "}
+                <span style={{ opacity: 0.85 }}>{v.label}</span>
+              </div>
+            ))
+          ) : (
+            <div style={{ fontWeight: 700 }}>{tooltip.text.split(" @ ")[0]}</div>
+          )}
           <div style={{ opacity: 0.85 }}>{tooltip.text.split(" @ ")[1]}</div>
         </div>
       )}
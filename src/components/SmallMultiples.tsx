@@ -0,0 +1,78 @@
+// src/components/SmallMultiples.tsx
+import SimpleGraph from "./SimpleGraph";
+import type { GraphMarker, GraphNormalize, GraphRange, GraphRegion, GraphSeries } from "./SimpleGraph";
+import { seriesColor } from "../utils/colors";
+
+/**
+ * Grid of single-channel graphs sharing one playhead, e.g. all six
+ * hip / knee / ankle angles at once. Column count adapts to the series count
+ * unless given.
+ */
+export default function SmallMultiples({
+  series,
+  time,
+  jsonDuration,
+  fbxDuration,
+  dataTime,
+  height,
+  columns,
+  normalize = "none",
+  markers,
+  regions,
+  onSeek,
+  selection,
+  onSelectionChange,
+}: {
+  series: GraphSeries[];
+  time: number;
+  jsonDuration: number;
+  fbxDuration: number;
+  dataTime?: number;
+  height: number; // total grid height (px)
+  columns?: number;
+  normalize?: GraphNormalize;
+  markers?: GraphMarker[];
+  /** Shaded spans per series id */
+  regions?: Record<string, GraphRegion[]>;
+  onSeek?: (tJson: number) => void;
+  selection?: GraphRange | null;
+  onSelectionChange?: (range: GraphRange | null) => void;
+}) {
+  const GAP = 8;
+  const cols = Math.max(1, columns ?? (series.length <= 2 ? series.length : series.length <= 4 ? 2 : 3));
+  const rows = Math.max(1, Math.ceil(series.length / cols));
+  const cellH = Math.max(80, Math.floor((height - (rows - 1) * GAP) / rows));
+
+  return (
+    <div
+      style={{
+        display: "grid",
+        gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))`,
+        gap: GAP,
+        width: "100%",
+        minWidth: 0,
+      }}
+    >
+      {series.map((sr, i) => (
+        <div key={sr.id} style={{ minWidth: 0 }}>
+          <SimpleGraph
+            series={[{ ...sr, color: sr.color ?? seriesColor(i) }]}
+            normalize={normalize}
+            time={time}
+            jsonDuration={jsonDuration}
+            fbxDuration={fbxDuration}
+            dataTime={dataTime}
+            height={cellH}
+            title={sr.label}
+            yLabel=""
+            markers={markers}
+            regions={regions?.[sr.id]}
+            onSeek={onSeek}
+            selection={selection}
+            onSelectionChange={onSelectionChange}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+// src/components/SyncPanel.tsx
+import { useEffect, useState } from "react";
+import type { CSSProperties } from "react";
+import type { SyncEstimate, TimeSync } from "../utils/sync";
+
+/** Where the active sync comes from */
+export type SyncSource = "manifest" | "custom" | "stretch";
+
+const SOURCE_LABEL: Record<SyncSource, string> = {
+  manifest: "Manifest",
+  custom: "Custom (this browser)",
+  stretch: "Stretched to clip",
+};
+
+/**
+ * Admin card for lining the model clip up with the data sheets: offset / rate
+ * with frame nudges, auto-align on a joint's speed, and the manifest snippet.
+ */
+export default function SyncPanel({
+  sync,
+  source,
+  fps,
+  joints,
+  format,
+  onChange,
+  onReset,
+  onAutoAlign,
+  onClose,
+  style,
+}: {
+  sync: TimeSync;
+  source: SyncSource;
+  fps: number;
+  /** Joint keys to offer for auto-align (best candidates first) */
+  joints: string[];
+  format?: (k: string) => string;
+  onChange: (sync: TimeSync) => void;
+  /** Drop the custom sync (back to the manifest / stretch) */
+  onReset: () => void;
+  /** `null` joint = try the best few and keep the strongest match */
+  onAutoAlign: (joint: string | null) => Promise<SyncEstimate | null>;
+  onClose: () => void;
+  style?: CSSProperties;
+}) {
+  const [offsetText, setOffsetText] = useState(() => (sync.offset * 1000).toFixed(1));
+  const [rateText, setRateText] = useState(() => sync.rate.toFixed(5));
+  const [joint, setJoint] = useState<string>("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the inputs in step with nudges, resets and auto-align
+  useEffect(() => {
+    setOffsetText((sync.offset * 1000).toFixed(1));
+    setRateText(sync.rate.toFixed(5));
+  }, [sync.offset, sync.rate]);
+
+  const commitOffset = () => {
+    const ms = Number(offsetText);
+    if (Number.isFinite(ms)) onChange({ ...sync, offset: ms / 1000 });
+    else setOffsetText((sync.offset * 1000).toFixed(1));
+  };
+  const commitRate = () => {
+    const rate = Number(rateText);
+    if (rate > 0) onChange({ ...sync, rate });
+    else setRateText(sync.rate.toFixed(5));
+  };
+  const nudge = (frames: number) => onChange({ ...sync, offset: sync.offset + frames / fps });
+
+  async function autoAlign() {
+    setBusy(true);
+    setError(null);
+    setStatus(null);
+    try {
+      // Sampling the skeleton and the lag scan block the main thread: let "Aligning…" paint first
+      await new Promise((r) => requestAnimationFrame(() => setTimeout(r)));
+      const est = await onAutoAlign(joint || null);
+      if (!est) throw new Error("No overlap between the clip and the data to correlate.");
+      onChange({ offset: est.offset, rate: est.rate });
+      setStatus(`Aligned · r = ${est.score.toFixed(3)}${est.score < 0.6 ? " (weak match, check by eye)" : ""}`);
+    } catch (err) {
+      console.error("Auto-align failed:", err);
+      setError((err as Error)?.message ?? String(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function copySnippet() {
+    const snippet = JSON.stringify({ sync: { offset: +sync.offset.toFixed(4), rate: +sync.rate.toFixed(6) } });
+    try {
+      await navigator.clipboard.writeText(snippet.slice(1, -1));
+      setStatus("Copied manifest snippet");
+    } catch {
+      setStatus(snippet.slice(1, -1));
+    }
+  }
+
+  const row: CSSProperties = { display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 };
+  const nudgeBtn: CSSProperties = { height: 24, padding: "0 8px" };
+
+  return (
+    <div
+      className="panel-wrap"
+      style={{
+        padding: "10px 12px",
+        width: 280,
+        color: "var(--text)",
+        fontSize: 12,
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        ...style,
+      }}
+    >
+      <div style={row}>
+        <span style={{ fontWeight: 700, letterSpacing: "0.04em" }}>Time sync</span>
+        <button className="btn ghost" style={{ height: 24, padding: "0 8px" }} onClick={onClose}>
+          ✕
+        </button>
+      </div>
+      <span className="small">
+        data t = rate × clip t + offset · {SOURCE_LABEL[source]}
+      </span>
+
+      <label style={row}>
+        <span className="small">Offset (ms)</span>
+        <input
+          className="select"
+          style={{ width: 96 }}
+          value={offsetText}
+          onChange={(e) => setOffsetText(e.target.value)}
+          onBlur={commitOffset}
+          onKeyDown={(e) => e.key === "Enter" && commitOffset()}
+        />
+      </label>
+      <div style={{ ...row, justifyContent: "flex-end", gap: 4 }}>
+        <button className="btn" style={nudgeBtn} onClick={() => nudge(-10)} title="−10 frames">
+          «
+        </button>
+        <button className="btn" style={nudgeBtn} onClick={() => nudge(-1)} title="−1 frame">
+          ‹
+        </button>
+        <button className="btn" style={nudgeBtn} onClick={() => nudge(1)} title="+1 frame">
+          ›
+        </button>
+        <button className="btn" style={nudgeBtn} onClick={() => nudge(10)} title="+10 frames">
+          »
+        </button>
+      </div>
+      <label style={row}>
+        <span className="small">Rate</span>
+        <input
+          className="select"
+          style={{ width: 96 }}
+          value={rateText}
+          onChange={(e) => setRateText(e.target.value)}
+          onBlur={commitRate}
+          onKeyDown={(e) => e.key === "Enter" && commitRate()}
+        />
+      </label>
+
+      <label style={row}>
+        <span className="small">Align on</span>
+        <select className="select" value={joint} onChange={(e) => setJoint(e.target.value)} disabled={busy}>
+          <option value="">Best match</option>
+          {joints.map((k) => (
+            <option key={k} value={k}>
+              {format ? format(k) : k}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button className="btn primary" onClick={autoAlign} disabled={busy || !joints.length}>
+        {busy ? "Aligning…" : "Auto-align"}
+      </button>
+
+      {status && <span className="small">{status}</span>}
+      {error && <span style={{ color: "#ef4444" }}>{error}</span>}
+
+      <div style={{ ...row, justifyContent: "flex-end" }}>
+        <button className="btn" onClick={copySnippet}>
+          Copy for manifest
+        </button>
+        <button className="btn" onClick={onReset} disabled={source !== "custom"}>
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
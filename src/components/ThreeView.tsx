@@ -1,13 +1,70 @@
 // src/components/ThreeView.tsx
 import React, { useMemo, useState, useEffect, useCallback, useRef } from "react";
+import { flushSync } from "react-dom";
 import { Canvas, useThree, useFrame } from "@react-three/fiber";
 import { OrbitControls, ContactShadows } from "@react-three/drei";
 import * as THREE from "three";
-import FBXModel from "./FBXModel";
+import CaptureModel from "./CaptureModel";
 import SimpleGraph from "./SimpleGraph";
+import type { GraphData, GraphMarker, GraphNormalize, GraphRange, GraphRegion, GraphSeries } from "./SimpleGraph";
+import SmallMultiples from "./SmallMultiples";
+import ChannelPicker from "./ChannelPicker";
 import GraphHoloPanel from "./GraphHoloPanel";
-import { parseExcelToDataSets } from "../utils/excel";
+import JointSkeleton from "./JointSkeleton";
+import OnionSkin from "./OnionSkin";
+import type { OnionPose } from "./OnionSkin";
+import TrajectoryTrail from "./TrajectoryTrail";
+import SequencePanel from "./SequencePanel";
+import { THEME_CSS } from "./theme";
+import ExportPanel from "./ExportPanel";
+import ReportPanel from "./ReportPanel";
+import type { ReportOptions } from "./ReportPanel";
+import SyncPanel from "./SyncPanel";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+import CachePanel from "./CachePanel";
+import FilterChain from "./FilterChain";
+import type { SyncSource } from "./SyncPanel";
+import { DATA_FILE_ACCEPT } from "../utils/excel";
 import type { RowsBySheet } from "../utils/excel";
+import { loadDataUrlToDataSets, parseDataFileInWorker } from "../utils/dataLoader";
+import { channelTrace, sessionFromSets, sheetToRows, traceDuration, tracePoints } from "../utils/sessionData";
+import type { ChannelTrace, SessionData } from "../utils/sessionData";
+import { buildJointData, findJointSheet, jointLabel } from "../utils/joints";
+import type { JointData } from "../utils/joints";
+import { DEFAULT_KINEMATICS, DERIVED_PREFIX, deriveKinematicSheets } from "../utils/kinematics";
+import { deriveAngleSheets } from "../utils/biomechanics";
+import { analyzeSequence } from "../utils/sequence";
+import { EVENT_META, detectSwingEvents } from "../utils/events";
+import type { SwingEventId } from "../utils/events";
+import { downloadBlob, exportVideo, snapshotCanvas } from "../utils/videoExport";
+import { buildReportHtml } from "../utils/report";
+import type { ReportStill } from "../utils/report";
+import type { VideoExportOptions } from "../utils/videoExport";
+import { MODEL_FILE_ACCEPT, modelFormatFromName } from "../utils/models";
+import type { ClipRef, ModelAsset, ModelFormat, ModelSource } from "../utils/models";
+import {
+  commonSyncJoints,
+  dataToModel,
+  estimateSync,
+  loadSyncOverrides,
+  modelToData,
+  resolveSync,
+  sampleModelJoints,
+  saveSyncOverrides,
+  stretchSync,
+} from "../utils/sync";
+import type { SyncEstimate, SyncSpec, TimeSync } from "../utils/sync";
+import { DEFAULT_FPS, clipRate, resolveSessionRate, sheetRates, storeRate, storedRate } from "../utils/sampleRate";
+import type { RateEstimate } from "../utils/sampleRate";
+import { ISSUE_META, diagnoseSheet, fillGaps } from "../utils/diagnostics";
+import type { GapFill } from "../utils/diagnostics";
+import { loadFilterChains, pipelineLabel, processSeries, saveFilterChains } from "../utils/filters";
+import type { FilterStep } from "../utils/filters";
+import { rosterMeta } from "../utils/roster";
+import { captureLabel, parseCaptureName } from "../shared/captureName";
+import type { CaptureInfo } from "../shared/captureName";
+import type { RosterEntry } from "../utils/roster";
+import { seriesColor } from "../utils/colors";
 
 /* ------------------------------------------------------------------ */
 /* Types & constants                                                   */
@@ -17,22 +74,102 @@ type SeriesPoint = { t?: number; value: number };
 type Mode = "player" | "admin";
 type Layout = "right" | "bottom";
 type PanelMode = "docked" | "in3d";
+type CompareLayout = "off" | "overlay" | "grid";
+type LoopMode = "loop" | "pingpong" | "once";
+
+type CompareView = "side" | "ghost";
+/** Event the comparison swing is lined up on ("start" = raw t=0) */
+type AlignOn = "start" | SwingEventId;
+type OnionMode = "off" | "frames" | "events";
+
+const LOOP_MODES: Array<{ id: LoopMode; label: string }> = [
+  { id: "loop", label: "Loop" },
+  { id: "pingpong", label: "Ping-pong" },
+  { id: "once", label: "Play once" },
+];
+
+/** Model file plus loader; `format` falls back to the file extension */
+type ManifestModel = { file: string; format?: ModelFormat };
+
+/** One swing within a session; unset fields fall back to the session's files */
+type ManifestTake = {
+  id: string;
+  label?: string;
+  model?: ManifestModel | null;
+  excel?: string;
+  /** Animation within the model file (name or index) */
+  clip?: ClipRef;
+  /** Overrides the session's sync for this take */
+  sync?: SyncSpec;
+  /** Parsed from the data file's name by gen-manifests */
+  capture?: CaptureInfo;
+};
+
+/** What gen-manifests found in a session's files (see public/data/manifest.schema.json) */
+type ManifestSheetInfo = { name: string; channels: string[]; frames: number; fps?: number | null; duration?: number | null };
+type ManifestDataInfo = {
+  file: string;
+  bytes: number;
+  sha256: string;
+  sheets?: ManifestSheetInfo[];
+  fps?: number | null;
+  duration?: number | null;
+  frames?: number;
+  error?: string;
+};
+type ManifestModelInfo = {
+  file: string;
+  format: ModelFormat;
+  bytes: number;
+  sha256: string;
+  clips?: number;
+  duration?: number | null;
+  fps?: number | null;
+  error?: string;
+};
 
+/** Shape of public/data/<player>/index.json; keep public/data/manifest.schema.json in step */
 type PlayerManifest = {
   player: string;
-  defaultSession?: string;
+  defaultSession?: string | null;
   sessions: string[];
+  model?: ManifestModel | null;
+  /** Legacy FBX-only form of `model` */
   fbx?: string;
   excel?: string;
-  files?: Record<string, { fbx?: string; excel?: string }>;
+  /** `model: null` (or legacy `fbx: null`) marks a session that only has sheet data */
+  files?: Record<
+    string,
+    {
+      model?: ManifestModel | null;
+      fbx?: string | null;
+      excel?: string;
+      takes?: ManifestTake[];
+      /** Model → data time (tData = rate · tModel + offset); unset stretches the data over the clip */
+      sync?: SyncSpec;
+      /** Single-take sessions: parsed from the data file's name */
+      capture?: CaptureInfo;
+    }
+  >;
+  details?: Record<string, { data: ManifestDataInfo[]; models: ManifestModelInfo[] }>;
 };
 
-const FPS = 120;
 const isBrowser = typeof window !== "undefined";
 
-/** Suggested players for the dropdown (you can extend via URL ?players=A,B,C) */
+/** Players for the dropdown when there's no players.json (extend via URL ?players=A,B,C) */
 const DEFAULT_PLAYERS = ["Pete Alonso"];
 
+/** Half the gap between models in side-by-side comparison (m) */
+const COMPARE_OFFSET = 0.8;
+const COMPARE_COLOR = "#5aa9ff";
+/** Unprocessed trace drawn under a filtered metric */
+const RAW_TRACE_COLOR = "rgba(154,164,178,0.55)";
+
+/** Default onion-skin offsets (frames at the session's rate) */
+const DEFAULT_ONION_OFFSETS = [-30, -15, 15];
+const ONION_PAST = "#5aa9ff";
+const ONION_FUTURE = "#e5812b";
+
 /** Training floor size (visual only) */
 const FLOOR_W = 10;
 const FLOOR_D = 6;
@@ -43,6 +180,74 @@ const joinPath = (a: string, b: string) =>
   `${a.replace(/\/+$/, "")}/${b.replace(/^\/+/, "")}`;
 const withBase = (p: string) => joinPath(BASE_URL || "/", p);
 
+/** Session override first, then the player default; legacy `fbx` fields still count */
+function sessionModel(manifest: PlayerManifest, session: string): ManifestModel | null {
+  const sessionFiles = manifest.files?.[session];
+  if (sessionFiles?.model !== undefined) return sessionFiles.model;
+  if (sessionFiles?.fbx !== undefined) return sessionFiles.fbx ? { file: sessionFiles.fbx, format: "fbx" } : null;
+  if (manifest.model !== undefined) return manifest.model;
+  return { file: manifest.fbx ?? "EXPORT.fbx", format: "fbx" };
+}
+
+function sessionTakes(manifest: PlayerManifest | null, session: string | null): ManifestTake[] {
+  return (session && manifest?.files?.[session]?.takes) || [];
+}
+
+/**
+ * Picker label for a session: "Take 30 · vs Pitcher One (R) · 12:46" from the
+ * capture name (parsed here for older manifests), else the folder name.
+ * Multi-take sessions keep the folder name; their takes carry the details.
+ */
+function sessionLabel(manifest: PlayerManifest | null, session: string): string {
+  const files = manifest?.files?.[session];
+  if (!manifest || files?.takes?.length) return session;
+  const capture = files?.capture ?? parseCaptureName(files?.excel ?? manifest.excel ?? "");
+  return capture ? captureLabel(capture) : session;
+}
+
+function takeLabel(t: ManifestTake): string {
+  if (t.label) return t.label;
+  const capture = t.capture ?? (t.excel ? parseCaptureName(t.excel) : null);
+  return capture ? captureLabel(capture) : t.id;
+}
+
+/**
+ * Model (null for data-only sessions), data-file URL, clip and time sync for a
+ * manifest session; `take` picks one of its takes (default: the first).
+ */
+function sessionPaths(manifest: PlayerManifest, player: string, session: string, take?: string | null) {
+  const takes = sessionTakes(manifest, session);
+  const t = takes.find((x) => x.id === take) ?? takes[0];
+  const model = t?.model !== undefined ? t.model : sessionModel(manifest, session);
+  const fileExcel = t?.excel ?? manifest.files?.[session]?.excel ?? manifest.excel ?? "Kinematic_Data (1).xlsx";
+  const dir = `data/${encodeURIComponent(player)}/${session}`;
+  const modelSource: ModelSource | null = model
+    ? {
+        url: withBase(`${dir}/${encodeURIComponent(model.file)}`),
+        format: model.format ?? modelFormatFromName(model.file) ?? "fbx",
+      }
+    : null;
+  return {
+    model: modelSource,
+    excelPath: withBase(`${dir}/${encodeURIComponent(fileExcel)}`),
+    clip: t?.clip ?? null,
+    sync: resolveSync(t?.sync ?? manifest.files?.[session]?.sync),
+    /** Data rate recorded by gen-manifests, if any */
+    fps: manifest.details?.[session]?.data.find((d) => d.file === fileExcel)?.fps ?? null,
+  };
+}
+
+const NO_FILTERS: FilterStep[] = [];
+const NO_CHANNELS: string[] = [];
+
+async function fetchManifest(player: string): Promise<PlayerManifest> {
+  const url = withBase(`data/${encodeURIComponent(player)}/index.json?ts=${Date.now()}`);
+  return fetch(url).then((r) => {
+    if (!r.ok) throw new Error(`manifest ${r.status}`);
+    return r.json();
+  });
+}
+
 /** Desired opening camera pose (your “Photo 2” look) */
 const HOME_CAM = {
   pos: [3.6, 2.5, 5.4] as [number, number, number],
@@ -203,37 +408,120 @@ function TrainingFloor({ muted = false }: { muted?: boolean }) {
   );
 }
 
+/* ------------------------------------------------------------------ */
+/* Capture bridge (synchronous render for frame-exact export)          */
+/* ------------------------------------------------------------------ */
+
+type CaptureHandle = { render: () => HTMLCanvasElement };
+
+function CaptureBridge({ handleRef }: { handleRef: React.MutableRefObject<CaptureHandle | null> }) {
+  const gl = useThree((s) => s.gl);
+  const advance = useThree((s) => s.advance);
+  useEffect(() => {
+    handleRef.current = {
+      // Runs every useFrame subscriber, then renders; the drawing buffer is
+      // still valid for drawImage within the same task.
+      render: () => {
+        advance(performance.now());
+        return gl.domElement;
+      },
+    };
+    return () => {
+      handleRef.current = null;
+    };
+  }, [gl, advance, handleRef]);
+  return null;
+}
+
 /* ------------------------------------------------------------------ */
 /* Scene                                                               */
 /* ------------------------------------------------------------------ */
 
 function Scene({
-  fbxUrl,
+  model,
+  clip,
   time,
   onReadyDuration,
+  onClips,
+  onAsset,
   mutedGrid,
+  jointData,
+  dataTime,
+  showSkeleton,
+  trailKey,
+  trailLength,
+  compare,
+  onion,
 }: {
-  fbxUrl: string | null;
+  model: ModelSource | null;
+  clip: ClipRef | null;
   time: number;
   onReadyDuration: (dur: number) => void;
+  onClips: (names: string[]) => void;
+  onAsset: (asset: ModelAsset, clip: THREE.AnimationClip | null) => void;
   mutedGrid: boolean;
+  jointData: JointData | null;
+  dataTime: number;
+  showSkeleton: boolean;
+  trailKey: string | null;
+  trailLength: number;
+  compare?: {
+    view: CompareView;
+    model: ModelSource | null;
+    clip: ClipRef | null;
+    time: number;
+    onReadyDuration: (dur: number) => void;
+    jointData: JointData | null;
+    dataTime: number;
+  } | null;
+  onion?: OnionPose[];
 }) {
   const axes = useMemo(() => new THREE.AxesHelper(1.5), []);
+  const sideBySide = compare?.view === "side";
   return (
     <>
       <AdaptiveLightRig muted={mutedGrid} />
       <TrainingFloor muted={mutedGrid} />
       <primitive object={axes} position={[0, 0.01, 0]} />
-      {fbxUrl && (
-        <FBXModel
-          url={fbxUrl}
-          scale={0.01}
+      {compare && (
+        <group position={[sideBySide ? COMPARE_OFFSET : 0, 0, 0]}>
+          {compare.model && (
+            <CaptureModel
+              source={compare.model}
+              clip={compare.clip}
+              time={compare.time}
+              onReadyDuration={compare.onReadyDuration}
+              ghost={sideBySide ? undefined : { color: COMPARE_COLOR, opacity: 0.35 }}
+            />
+          )}
+          {(showSkeleton || !compare.model) && compare.jointData && (
+            <JointSkeleton data={compare.jointData} time={compare.dataTime} opacity={sideBySide ? 1 : 0.5} />
+          )}
+        </group>
+      )}
+      <group position={[sideBySide ? -COMPARE_OFFSET : 0, 0, 0]}>
+      {model && (
+        <CaptureModel
+          source={model}
+          clip={clip}
           position={[0, 0, 0]}
           rotation={[0, 0, 0]}
           time={time}
           onReadyDuration={onReadyDuration}
+          onClips={onClips}
+          onAsset={onAsset}
         />
       )}
+      {showSkeleton && jointData && <JointSkeleton data={jointData} time={dataTime} />}
+      {onion && onion.length > 0 && model && <OnionSkin source={model} clip={clip} poses={onion} />}
+      {onion &&
+        !model &&
+        jointData &&
+        onion.map((p) => <JointSkeleton key={p.key} data={jointData} time={p.dataTime} opacity={p.opacity} />)}
+      {jointData && trailKey && jointData.tracks[trailKey] && (
+        <TrajectoryTrail data={jointData} trackKey={trailKey} time={dataTime} length={trailLength} />
+      )}
+      </group>
     </>
   );
 }
@@ -242,7 +530,19 @@ function Scene({
 /* Main Component                                                      */
 /* ------------------------------------------------------------------ */
 
-export default function ThreeView() {
+export default function ThreeView({
+  roster,
+  startPlayer,
+  startSession,
+  onShowRoster,
+}: {
+  /** Players from players.json (null/undefined = not loaded, use DEFAULT_PLAYERS) */
+  roster?: RosterEntry[] | null;
+  /** Opened from the roster; URL params still win */
+  startPlayer?: string;
+  startSession?: string | null;
+  onShowRoster?: () => void;
+} = {}) {
   /* URL/setup */
   const params = isBrowser ? new URLSearchParams(window.location.search) : new URLSearchParams();
   const initialMode: Mode = params.get("mode") === "admin" ? "admin" : "player";
@@ -252,7 +552,8 @@ export default function ThreeView() {
   // Player locking via URL
   const paramPlayerRaw = params.get("player");
   const decodedParamPlayer = paramPlayerRaw ? decodeURIComponent(paramPlayerRaw.replace(/\+/g, " ")) : null;
-  const initialPlayer = decodedParamPlayer || DEFAULT_PLAYERS[0];
+  const rosterNames = useMemo(() => (roster?.length ? roster.map((e) => e.player) : null), [roster]);
+  const initialPlayer = decodedParamPlayer || startPlayer || rosterNames?.[0] || DEFAULT_PLAYERS[0];
   const isPlayerLocked = params.get("lock") === "1" || (initialMode === "player" && !!paramPlayerRaw);
 
   // Optional list of players from ?players=A,B,C (only used if NOT locked)
@@ -260,18 +561,39 @@ export default function ThreeView() {
     (params.get("players")?.split(",").map((s) => s.trim()).filter(Boolean) ?? []) as string[];
   const initialPlayers = useMemo(() => {
     if (isPlayerLocked) return [initialPlayer];
-    const base = [...DEFAULT_PLAYERS];
+    const base = [...(rosterNames ?? DEFAULT_PLAYERS)];
     for (const p of playersFromUrl) if (!base.includes(p)) base.push(p);
     if (!base.includes(initialPlayer)) base.unshift(initialPlayer);
     return base;
-  }, [playersFromUrl, isPlayerLocked, initialPlayer]);
+  }, [playersFromUrl, isPlayerLocked, initialPlayer, rosterNames]);
+
+  const urlSession = params.get("session") ?? startSession ?? null;
 
-  const urlSession = params.get("session") ?? null;
+  // Loop region from ?in=&out=&loop= (applied once the first session loads)
+  const urlIn = parseFloat(params.get("in") ?? "");
+  const urlOut = parseFloat(params.get("out") ?? "");
+  const urlRegionRef = useRef<[number, number] | null>(
+    Number.isFinite(urlIn) && Number.isFinite(urlOut) && urlOut > urlIn ? [Math.max(0, urlIn), urlOut] : null
+  );
+  const urlLoopMode = params.get("loop");
 
   const [playerName, setPlayerName] = useState<string>(initialPlayer);
   const [session, setSession] = useState<string | null>(urlSession);
+  // Chosen take within the session (?take=); sessions without a take list ignore it
+  const [take, setTake] = useState<string | null>(params.get("take"));
   const [players, setPlayers] = useState<string[]>(initialPlayers);
 
+  // players.json can arrive after mount (deep links skip the roster)
+  useEffect(() => {
+    if (!rosterNames || isPlayerLocked) return;
+    setPlayers((list) => [...rosterNames, ...list.filter((p) => !rosterNames.includes(p) && (p === playerName || !DEFAULT_PLAYERS.includes(p)))]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rosterNames]);
+  const playerMeta = useMemo(() => {
+    const entry = roster?.find((e) => e.player === playerName);
+    return entry ? rosterMeta(entry) : "";
+  }, [roster, playerName]);
+
   useEffect(() => {
     if (!isPlayerLocked || !paramPlayerRaw) return;
     const decoded = decodeURIComponent(paramPlayerRaw.replace(/\+/g, " "));
@@ -292,28 +614,243 @@ export default function ThreeView() {
   }, []);
 
   /* Playback */
-  const [fbxUrl, setFbxUrl] = useState<string | null>(null);
+  const [model, setModel] = useState<ModelSource | null>(null);
   const [playing, setPlaying] = useState(true);
   const [speed, setSpeed] = useState(1);
   const [time, setTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const [fbxDuration, setFbxDuration] = useState(0);
   const [snapFrames, setSnapFrames] = useState(true);
+  // Playback repeats inside [in, out] (FBX seconds) when set
+  const [loopRegion, setLoopRegion] = useState<[number, number] | null>(null);
+  const [loopMode, setLoopMode] = useState<LoopMode>(() =>
+    LOOP_MODES.some((m) => m.id === urlLoopMode) ? (urlLoopMode as LoopMode) : "loop"
+  );
 
-  /* Data (multi-sheet) */
-  const [rowsBySheet, setRowsBySheet] = useState<RowsBySheet | null>(null);
-  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  /* Data (multi-sheet, columnar) */
+  const [sessionData, setSessionData] = useState<SessionData | null>(null);
   const [sheet, setSheet] = useState<string | null>(null);
-
-  const [rows, setRows] = useState<any[] | null>(null);
-  const [channels, setChannels] = useState<string[]>([]);
+  // Optional gap filling before plotting (Data quality panel)
+  const [gapFill, setGapFill] = useState<GapFill>(() => {
+    const v = isBrowser ? localStorage.getItem("seq_gapFill") : null;
+    return v === "linear" || v === "spline" ? v : "off";
+  });
 
   const [selectedChannel, setSelectedChannel] = useState<string | null>(null);
-  const [series, setSeries] = useState<SeriesPoint[] | null>(null);
-
   const [selectedChannelB, setSelectedChannelB] = useState<string | null>(null);
-  const [seriesB, setSeriesB] = useState<SeriesPoint[] | null>(null);
 
-  const [jsonDuration, setJsonDuration] = useState(0);
+  /* Per-channel processing chains for Metric A / B (persisted) */
+  const [filterChains, setFilterChains] = useState<Record<string, FilterStep[]>>(() => loadFilterChains());
+  const [showRawTrace, setShowRawTrace] = useState<boolean>(
+    isBrowser ? localStorage.getItem("seq_showRawTrace") !== "0" : true
+  );
+  useEffect(() => {
+    saveFilterChains(filterChains);
+  }, [filterChains]);
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showRawTrace", showRawTrace ? "1" : "0");
+  }, [showRawTrace]);
+  const chainA = (selectedChannel && filterChains[selectedChannel]) || NO_FILTERS;
+  const chainB = (selectedChannelB && filterChains[selectedChannelB]) || NO_FILTERS;
+  const setChain = useCallback((channel: string | null, steps: FilterStep[]) => {
+    if (!channel) return;
+    setFilterChains((prev) => {
+      const next = { ...prev };
+      if (steps.length) next[channel] = steps;
+      else delete next[channel];
+      return next;
+    });
+  }, []);
+
+  /* Joint-center skeleton (from the "Joint Center Positions" sheet) */
+  const jointData = useMemo<JointData | null>(() => {
+    if (!sessionData) return null;
+    const name = findJointSheet(sessionData);
+    return name ? buildJointData(sessionData[name]) : null;
+  }, [sessionData]);
+
+  /* Derived kinematics (virtual sheets appended after the workbook's own) */
+  const [cutoffHz, setCutoffHz] = useState<number>(() => {
+    const raw = isBrowser ? localStorage.getItem("seq_filterHz") : null;
+    const v = raw == null ? NaN : Number(raw);
+    return Number.isFinite(v) && v >= 0 ? v : DEFAULT_KINEMATICS.cutoffHz;
+  });
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_filterHz", String(cutoffHz));
+  }, [cutoffHz]);
+
+  const dataSets = useMemo<SessionData | null>(() => {
+    if (!sessionData) return null;
+    const sets = { ...sessionData, ...deriveAngleSheets(sessionData) };
+    return { ...sets, ...deriveKinematicSheets(sets, { cutoffHz }) };
+  }, [sessionData, cutoffHz]);
+  const sheetNames = useMemo(() => (dataSets ? Object.keys(dataSets) : []), [dataSets]);
+
+  /* The sheet on screen and its channels; switching either is a lookup, not a rescan */
+  const sheetData = useMemo(
+    () => (dataSets && sheet && dataSets[sheet] ? fillGaps(dataSets[sheet], gapFill) : null),
+    [dataSets, sheet, gapFill]
+  );
+  const channels = sheetData?.keys ?? NO_CHANNELS;
+  const series = useMemo(
+    () => (sheetData && selectedChannel ? channelTrace(sheetData, selectedChannel) : null),
+    [sheetData, selectedChannel]
+  );
+  const seriesB = useMemo(
+    () => (sheetData && selectedChannelB ? channelTrace(sheetData, selectedChannelB) : null),
+    [sheetData, selectedChannelB]
+  );
+  const jsonDuration = series ? traceDuration(series) : 0;
+
+  // Sessions without an FBX still play back over the sheet's own duration.
+  const duration = fbxDuration > 0 ? fbxDuration : jointData?.duration ?? 0;
+  const dataDuration = jsonDuration || jointData?.duration || 0;
+
+  /* Model ↔ data time: admin nudges, then the manifest, else stretch the data over the clip */
+  const [manifestSync, setManifestSync] = useState<TimeSync | null>(null);
+  const [syncKey, setSyncKey] = useState<string | null>(null);
+  const [syncOverrides, setSyncOverrides] = useState<Record<string, TimeSync>>(loadSyncOverrides);
+  useEffect(() => {
+    saveSyncOverrides(syncOverrides);
+  }, [syncOverrides]);
+
+  const customSync = syncKey ? syncOverrides[syncKey] ?? null : null;
+  const hasClip = !!model && fbxDuration > 0;
+  const syncSource: SyncSource = !hasClip ? "stretch" : customSync ? "custom" : manifestSync ? "manifest" : "stretch";
+  const sync = useMemo<TimeSync>(
+    () =>
+      syncSource === "custom" && customSync
+        ? customSync
+        : syncSource === "manifest" && manifestSync
+          ? manifestSync
+          : stretchSync(duration, dataDuration),
+    [syncSource, customSync, manifestSync, duration, dataDuration]
+  );
+  const toDataTime = useCallback((t: number) => modelToData(sync, t), [sync]);
+  const toModelTime = useCallback((t: number) => dataToModel(sync, t), [sync]);
+  const dataTime = toDataTime(time);
+  // Graphs read data seconds once the sync is explicit (the axis no longer maps onto the clip)
+  const graphDataTime = syncSource === "stretch" ? undefined : dataTime;
+
+  /* Frame rate from the model's keyframes and the sheets' Time spacing */
+  const [modelRate, setModelRate] = useState<RateEstimate | null>(null);
+  const dataRates = useMemo(() => (sessionData ? sheetRates(sessionData) : {}), [sessionData]);
+  const rateKey = `${playerName}/${session ?? ""}`;
+  const rate = useMemo(
+    () => resolveSessionRate(dataRates, hasClip ? modelRate : null, storedRate(rateKey)),
+    [dataRates, hasClip, modelRate, rateKey]
+  );
+  const fps = rate.fps;
+  // Sheets disagreeing / irregular spacing is an admin concern; players just see the rate
+  const rateWarning = !isPlayer && rate.warnings.length > 0;
+  useEffect(() => {
+    if (rate.source !== "default") storeRate(rateKey, rate.fps);
+  }, [rate, rateKey]);
+
+  /* Kinematic sequence (pelvis → torso → lead arm → hand) */
+  const [showSequence, setShowSequence] = useState<boolean>(
+    isBrowser ? localStorage.getItem("seq_showSequence") !== "0" : true
+  );
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showSequence", showSequence ? "1" : "0");
+  }, [showSequence]);
+
+  const sequence = useMemo(
+    () => (jointData ? analyzeSequence(jointData, { cutoffHz }) : null),
+    [jointData, cutoffHz]
+  );
+
+  /* Swing events (stance → follow-through) */
+  const [showEvents, setShowEvents] = useState<boolean>(
+    isBrowser ? localStorage.getItem("seq_showEvents") !== "0" : true
+  );
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showEvents", showEvents ? "1" : "0");
+  }, [showEvents]);
+
+  const swingEvents = useMemo(
+    () => (jointData ? detectSwingEvents(jointData, { cutoffHz }) : []),
+    [jointData, cutoffHz]
+  );
+
+  const graphMarkers = useMemo<GraphMarker[]>(() => {
+    const out: GraphMarker[] = [];
+    if (showSequence && sequence) {
+      for (const s of sequence.segments) {
+        out.push({
+          t: s.t,
+          label: `${s.label} peak · ${s.peak.toFixed(s.unit === "m/s" ? 1 : 0)} ${s.unit}`,
+          color: s.color,
+        });
+      }
+    }
+    if (showEvents) for (const ev of swingEvents) out.push({ t: ev.t, label: ev.label, color: ev.color });
+    return out;
+  }, [showSequence, sequence, showEvents, swingEvents]);
+
+  /* Onion skin: translucent poses at frame offsets or at the swing events */
+  const [onionMode, setOnionMode] = useState<OnionMode>(() => {
+    const v = isBrowser ? localStorage.getItem("seq_onion") : null;
+    return v === "frames" || v === "events" ? v : "off";
+  });
+  const [onionOffsets, setOnionOffsets] = useState<number[]>(() => {
+    const raw = isBrowser ? localStorage.getItem("seq_onionOffsets") : null;
+    const list = raw ? raw.split(",").map(Number).filter((n) => Number.isFinite(n) && n !== 0) : [];
+    return list.length ? list : DEFAULT_ONION_OFFSETS;
+  });
+  const [onionText, setOnionText] = useState(() => onionOffsets.join(", "));
+  useEffect(() => {
+    if (!isBrowser) return;
+    localStorage.setItem("seq_onion", onionMode);
+    localStorage.setItem("seq_onionOffsets", onionOffsets.join(","));
+  }, [onionMode, onionOffsets]);
+
+  const onionPoses = useMemo<OnionPose[]>(() => {
+    if (onionMode === "off" || duration <= 0) return [];
+    if (onionMode === "events") {
+      return swingEvents.map((ev) => ({
+        key: ev.id,
+        time: toModelTime(ev.t),
+        dataTime: ev.t,
+        color: ev.color,
+        opacity: 0.3,
+      }));
+    }
+    const far = Math.max(...onionOffsets.map(Math.abs));
+    return onionOffsets.map((f) => {
+      const t = Math.min(duration, Math.max(0, time + f / fps));
+      return {
+        key: `f${f}`,
+        time: t,
+        dataTime: toDataTime(t),
+        color: f < 0 ? ONION_PAST : ONION_FUTURE,
+        // nearer poses read stronger
+        opacity: 0.12 + 0.28 * (1 - Math.abs(f) / (far + 1)),
+      };
+    });
+  }, [onionMode, onionOffsets, swingEvents, time, duration, toDataTime, toModelTime, fps]);
+
+  /* Trajectory trail (ball / joint / centre of gravity) */
+  const [trailKey, setTrailKey] = useState<string | null>(() =>
+    isBrowser ? localStorage.getItem("seq_trail") || null : null
+  );
+  const [trailLength, setTrailLength] = useState<number>(() => {
+    const v = isBrowser ? Number(localStorage.getItem("seq_trailLength")) : NaN;
+    return Number.isFinite(v) && v > 0 ? v : 90;
+  });
+  useEffect(() => {
+    if (!isBrowser) return;
+    if (trailKey) localStorage.setItem("seq_trail", trailKey);
+    else localStorage.removeItem("seq_trail");
+    localStorage.setItem("seq_trailLength", String(trailLength));
+  }, [trailKey, trailLength]);
+
+  // Objects and calc points first (ball, CoG), then joints
+  const trailOptions = useMemo(() => {
+    if (!jointData) return [];
+    const keys = Object.keys(jointData.tracks);
+    const rank = (k: string) => (/^\/Object\//.test(k) ? 0 : /^\/Calc\//.test(k) ? 1 : 2);
+    return keys.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  }, [jointData]);
 
   /* Layout + panels */
   const [graphDock, setGraphDock] = useState<Layout>("bottom");
@@ -331,6 +868,9 @@ export default function ThreeView() {
 
   const [showMainGraph, setShowMainGraph] = useState<boolean>(storedShowMain ? storedShowMain === "1" : true);
   const [showSecond, setShowSecond] = useState<boolean>(storedShowSecond ? storedShowSecond === "1" : true);
+  const [showSkeleton, setShowSkeleton] = useState<boolean>(
+    isBrowser ? localStorage.getItem("seq_showSkeleton") === "1" : false
+  );
 
   useEffect(() => {
     if (studio) setShowSecond(false);
@@ -344,13 +884,88 @@ export default function ThreeView() {
     localStorage.setItem("seq_showSecondGraph", showSecond ? "1" : "0");
     localStorage.removeItem("seq_showMiniGraph");
   }, [showSecond]);
+  useEffect(() => {
+    if (isBrowser) localStorage.setItem("seq_showSkeleton", showSkeleton ? "1" : "0");
+  }, [showSkeleton]);
 
   // 3D panel positions
   const [posMain, setPosMain] = useState<[number, number, number]>([3.8, 0.02, -2.6]);
   const [posSecond, setPosSecond] = useState<[number, number, number]>([1.0, 0.02, -4.2]);
 
+  /* Multi-channel compare (overlay on one axis or small-multiples grid) */
+  const [compareLayout, setCompareLayout] = useState<CompareLayout>("off");
+  const [compareChannels, setCompareChannels] = useState<string[]>([]);
+  const [normalizeMode, setNormalizeMode] = useState<GraphNormalize>("none");
+
+  useEffect(() => {
+    setCompareChannels((prev) => prev.filter((k) => channels.includes(k)));
+  }, [channels]);
+
+  useEffect(() => {
+    if (compareLayout === "off") return;
+    setCompareChannels((prev) => {
+      if (prev.length) return prev;
+      const seed = [selectedChannel, selectedChannelB].filter((k): k is string => !!k);
+      return Array.from(new Set(seed));
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compareLayout]);
+
+  const compareSeries = useMemo<GraphSeries[]>(() => {
+    if (compareLayout === "off" || !sheetData) return [];
+    return compareChannels.flatMap((k) => {
+      const trace = channelTrace(sheetData, k);
+      return trace ? [{ id: k, label: prettyLabel(k), data: trace }] : [];
+    });
+  }, [compareLayout, compareChannels, sheetData]);
+  const compareActive = panelMode === "docked" && compareSeries.length > 0;
+
+  /* Data-quality diagnostics on the raw sheet (admin) */
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showCache, setShowCache] = useState(false);
+  const [shadeIssues, setShadeIssues] = useState<boolean>(
+    isBrowser ? localStorage.getItem("seq_shadeIssues") !== "0" : true
+  );
+  useEffect(() => {
+    if (!isBrowser) return;
+    localStorage.setItem("seq_gapFill", gapFill);
+    localStorage.setItem("seq_shadeIssues", shadeIssues ? "1" : "0");
+  }, [gapFill, shadeIssues]);
+
+  const sheetReport = useMemo(
+    () => (!isPlayer && dataSets && sheet && dataSets[sheet] ? diagnoseSheet(dataSets[sheet]) : null),
+    [isPlayer, dataSets, sheet]
+  );
+
+  // Graphs start each channel at its first sample, so shift the problem spans to match
+  const regionsFor = useCallback(
+    (channel: string | null): GraphRegion[] | undefined => {
+      if (!shadeIssues || !sheetReport || !channel) return undefined;
+      const report = sheetReport.channels.find((c) => c.channel === channel);
+      if (!report) return undefined;
+      const filled = gapFill !== "off" ? " (interpolated)" : "";
+      return [...sheetReport.time, ...report.issues].map((i) => ({
+        t0: i.t0 - report.start,
+        t1: i.t1 - report.start,
+        color: ISSUE_META[i.kind].color,
+        label: `${ISSUE_META[i.kind].label}${i.kind === "gap" ? filled : ""} · ${i.samples} sample${i.samples === 1 ? "" : "s"} at ${i.t0.toFixed(3)}s`,
+      }));
+    },
+    [shadeIssues, sheetReport, gapFill]
+  );
+  const regionsA = useMemo(() => regionsFor(selectedChannel), [regionsFor, selectedChannel]);
+  const regionsB = useMemo(() => regionsFor(selectedChannelB), [regionsFor, selectedChannelB]);
+  const compareRegions = useMemo(() => {
+    const out: Record<string, GraphRegion[]> = {};
+    for (const sr of compareSeries) {
+      const r = regionsFor(sr.id);
+      if (r?.length) out[sr.id] = r;
+    }
+    return out;
+  }, [regionsFor, compareSeries]);
+
   /* Graph dock sizing */
-  const requestedGraphCount = (showMainGraph ? 1 : 0) + (showSecond ? 1 : 0);
+  const requestedGraphCount = compareActive ? 2 : (showMainGraph ? 1 : 0) + (showSecond ? 1 : 0);
   const dockPct = requestedGraphCount === 2 ? 0.3 : requestedGraphCount === 1 ? 0.2 : 0;
 
   const PANEL_PAD_TOP = 12;
@@ -393,11 +1008,7 @@ export default function ThreeView() {
 
     async function loadManifest(p: string) {
       try {
-        const url = withBase(`data/${encodeURIComponent(p)}/index.json?ts=${Date.now()}`);
-        const m: PlayerManifest = await fetch(url).then((r) => {
-          if (!r.ok) throw new Error(`manifest ${r.status}`);
-          return r.json();
-        });
+        const m = await fetchManifest(p);
         if (cancelled) return;
 
         setManifest(m);
@@ -422,43 +1033,79 @@ export default function ThreeView() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [playerName, isPlayerLocked]);
 
-  /* Load session's FBX + Excel using manifest */
+  /* Takes within the session (one swing each) and clips within the model */
+  const takes = useMemo(() => sessionTakes(manifest, session), [manifest, session]);
+  const activeTake = takes.some((t) => t.id === take) ? take : takes[0]?.id ?? null;
+  const takeIndex = takes.findIndex((t) => t.id === activeTake);
+  const [takeClip, setTakeClip] = useState<ClipRef | null>(null);
+  const [clipChoice, setClipChoice] = useState<number | null>(null);
+  const [clipNames, setClipNames] = useState<string[]>([]);
+  const activeClip = clipChoice ?? takeClip;
+  const modelRef = useRef(model);
+  modelRef.current = model;
+
+  // Camera, sheet and channel selections survive take changes (the Canvas is keyed per session)
+  const stepTake = useCallback(
+    (dir: 1 | -1) => {
+      if (takes.length < 2) return;
+      const next = takes[(Math.max(0, takeIndex) + dir + takes.length) % takes.length];
+      setTake(next.id);
+    },
+    [takes, takeIndex]
+  );
+
+  /* Load session's model + data file using manifest */
   useEffect(() => {
     if (!manifest || !session) return;
 
-    const fileFBX = manifest.files?.[session]?.fbx ?? manifest.fbx ?? "EXPORT.fbx";
-    const fileExcel =
-      manifest.files?.[session]?.excel ?? manifest.excel ?? "Kinematic_Data (1).xlsx";
-
-    const fbxPath = withBase(
-      `data/${encodeURIComponent(playerName)}/${session}/${encodeURIComponent(fileFBX)}`
-    );
-    const excelPath = withBase(
-      `data/${encodeURIComponent(playerName)}/${session}/${encodeURIComponent(fileExcel)}`
-    );
+    const {
+      model: sessionModelSource,
+      excelPath,
+      clip: sessionClip,
+      sync: sessionSync,
+      fps: manifestFps,
+    } = sessionPaths(manifest, playerName, session, activeTake);
 
     if (isBrowser) {
       const sp = new URLSearchParams(window.location.search);
       sp.set("mode", isPlayer ? "player" : "admin");
       sp.set("player", playerName);
       sp.set("session", session);
+      if (activeTake) sp.set("take", activeTake);
+      else sp.delete("take");
       if (isPlayerLocked) sp.set("lock", "1");
       else sp.delete("lock");
       const newUrl = `${window.location.pathname}?${sp.toString()}`;
       if (newUrl !== window.location.href) window.history.replaceState({}, "", newUrl);
     }
 
-    setFbxUrl(fbxPath);
+    // Takes often share one model file; keep it (and its duration) loaded then
+    const prev = modelRef.current;
+    if (prev?.url !== sessionModelSource?.url || prev?.format !== sessionModelSource?.format) {
+      setModel(sessionModelSource);
+      setFbxDuration(0);
+    }
+    setTakeClip(sessionClip);
+    setClipChoice(null);
+    setManifestSync(sessionSync);
+    setSyncKey(`${playerName}/${session}/${activeTake ?? ""}`);
     setPlaying(true);
-    setTime(0);
-
+    setTime(urlRegionRef.current?.[0] ?? 0);
+    setLoopRegion(urlRegionRef.current);
+    urlRegionRef.current = null;
+    // The previous take's data must not sit next to this take's model while it loads
+    setSessionData(null);
+
+    // A cached take loads at once while a cold parse takes seconds: abort the old load so it can't land last
+    const ctrl = new AbortController();
     (async () => {
       try {
-        const blob = await fetch(excelPath).then((r) => {
-          if (!r.ok) throw new Error(`excel ${r.status}`);
-          return r.blob();
-        });
-        const sets = await parseExcelToDataSets(blob as any, FPS);
+        const sets = await loadDataUrlToDataSets(
+          excelPath,
+          storedRate(`${playerName}/${session}`, manifestFps ?? DEFAULT_FPS),
+          ctrl.signal
+        );
+        if (ctrl.signal.aborted) return;
         const names = Object.keys(sets);
         if (!names.length) throw new Error("No usable sheets found.");
 
@@ -467,34 +1114,210 @@ export default function ThreeView() {
           names.find((n) => /baseball.*data/i.test(n)) ??
           names[0];
 
-        setRowsBySheet(sets);
-        setSheetNames(names);
-        setSheet(preferred);
-        setRows(sets[preferred]);
+        setSessionData(sets);
+        // Keep the viewed sheet across takes (derived sheets are rebuilt from the new data)
+        setSheet((prev) => (prev && (names.includes(prev) || prev.startsWith(DERIVED_PREFIX)) ? prev : preferred));
       } catch (err) {
-        console.error("Excel load failed:", err);
-        setRowsBySheet(null);
-        setSheetNames([]);
+        if (ctrl.signal.aborted) return;
+        console.error("Data file load failed:", err);
+        setSessionData(null);
         setSheet(null);
-        setRows(null);
       }
     })();
-  }, [manifest, session, playerName, isPlayer, isPlayerLocked]);
+    return () => ctrl.abort();
+  }, [manifest, session, activeTake, playerName, isPlayer, isPlayerLocked]);
+
+  /* Comparison ("vs") session: same or another player, lined up on a swing event */
+  const [vsPlayer, setVsPlayer] = useState<string>(initialPlayer);
+  const [vsSession, setVsSession] = useState<string | null>(null);
+  const [vsManifest, setVsManifest] = useState<PlayerManifest | null>(null);
+  const [vsSets, setVsSets] = useState<SessionData | null>(null);
+  const [vsModel, setVsModel] = useState<ModelSource | null>(null);
+  const [vsClip, setVsClip] = useState<ClipRef | null>(null);
+  const [vsSync, setVsSync] = useState<TimeSync | null>(null);
+  const [vsFbxDuration, setVsFbxDuration] = useState(0);
+  const [vsView, setVsView] = useState<CompareView>("ghost");
+  const [alignOn, setAlignOn] = useState<AlignOn>("contact");
+
+  // Follow the main player until another is picked
+  useEffect(() => {
+    setVsPlayer(playerName);
+    setVsSession(null);
+  }, [playerName]);
+
+  // The same session can't be shown twice (the model object is cached per URL)
+  useEffect(() => {
+    if (vsPlayer === playerName && vsSession === session) setVsSession(null);
+  }, [vsPlayer, vsSession, playerName, session]);
+
+  useEffect(() => {
+    if (vsPlayer === playerName) {
+      setVsManifest(manifest);
+      return;
+    }
+    let cancelled = false;
+    fetchManifest(vsPlayer)
+      .then((m) => {
+        if (!cancelled) setVsManifest(m);
+      })
+      .catch((e) => {
+        console.error("Comparison manifest load failed:", e);
+        if (!cancelled) setVsManifest(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [vsPlayer, playerName, manifest]);
+
+  useEffect(() => {
+    setVsSets(null);
+    setVsFbxDuration(0);
+    if (!vsManifest || !vsSession || !vsManifest.sessions?.includes(vsSession)) {
+      setVsModel(null);
+      return;
+    }
+    const { model: vsSessionModel, excelPath, clip, sync, fps } = sessionPaths(vsManifest, vsPlayer, vsSession);
+    setVsModel(vsSessionModel);
+    setVsClip(clip);
+    setVsSync(sync);
+
+    const ctrl = new AbortController();
+    (async () => {
+      try {
+        const sets = await loadDataUrlToDataSets(
+          excelPath,
+          storedRate(`${vsPlayer}/${vsSession}`, fps ?? DEFAULT_FPS),
+          ctrl.signal
+        );
+        if (!ctrl.signal.aborted) setVsSets(sets);
+      } catch (err) {
+        if (!ctrl.signal.aborted) console.error("Comparison data load failed:", err);
+      }
+    })();
+    return () => ctrl.abort();
+  }, [vsManifest, vsSession, vsPlayer]);
+
+  const onVsReadyDuration = useCallback((dur: number) => setVsFbxDuration(dur), []);
+
+  const vsJointData = useMemo<JointData | null>(() => {
+    if (!vsSets) return null;
+    const name = findJointSheet(vsSets);
+    return name ? buildJointData(vsSets[name]) : null;
+  }, [vsSets]);
+
+  const vsDataSets = useMemo<SessionData | null>(() => {
+    if (!vsSets) return null;
+    const sets = { ...vsSets, ...deriveAngleSheets(vsSets) };
+    return { ...sets, ...deriveKinematicSheets(sets, { cutoffHz }) };
+  }, [vsSets, cutoffHz]);
+
+  const vsEvents = useMemo(
+    () => (vsJointData ? detectSwingEvents(vsJointData, { cutoffHz }) : []),
+    [vsJointData, cutoffHz]
+  );
+
+  // Data-time offset that puts the comparison's event on top of ours
+  const alignShift = useMemo(() => {
+    if (alignOn === "start") return 0;
+    const a = swingEvents.find((ev) => ev.id === alignOn);
+    const b = vsEvents.find((ev) => ev.id === alignOn);
+    return a && b ? a.t - b.t : null;
+  }, [alignOn, swingEvents, vsEvents]);
+
+  const vsOn = !!vsSession && (!!vsModel || !!vsJointData);
+  const vsDuration = vsFbxDuration > 0 ? vsFbxDuration : vsJointData?.duration ?? 0;
+  const vsDataDuration = vsJointData?.duration || vsDuration;
+  // Outside its own range the comparison holds its first / last frame
+  const vsDataTime = Math.min(vsDataDuration, Math.max(0, dataTime - (alignShift ?? 0)));
+  const vsModelSync = (vsModel && vsFbxDuration > 0 && vsSync) || stretchSync(vsDuration, vsDataDuration);
+  const vsTime = Math.min(Math.max(0, dataToModel(vsModelSync, vsDataTime)), vsDuration || Infinity);
+  const vsLabel = vsSession ? (vsPlayer === playerName ? vsSession : `${vsPlayer} · ${vsSession}`) : "";
+  const vsSessions = (vsManifest?.sessions ?? []).filter((s) => vsPlayer !== playerName || s !== session);
+
+  /** Our trace plus the comparison's same channel, shifted onto our time axis */
+  const vsSheet = vsDataSets && sheet ? vsDataSets[sheet] ?? null : null;
+  const overlayFor = (own: GraphData | undefined, channel: string | null, chain: FilterStep[]): GraphSeries[] | undefined => {
+    if (!vsOn || !vsSheet || !own || !channel) return undefined;
+    const raw = channelTrace(vsSheet, channel);
+    const filtered = processSeries(raw, chain);
+    if (!raw || filtered?.length === 0) return undefined;
+    const shift = alignShift ?? 0;
+    return [
+      { id: "main", label: session ?? "Session", data: own },
+      {
+        id: "vs",
+        label: vsLabel,
+        data: filtered ? filtered.map((p) => ({ t: (p.t ?? 0) + shift, value: p.value })) : { ...raw, t0: raw.t0 - shift },
+        color: COMPARE_COLOR,
+      },
+    ];
+  };
+
+  /* Metric A / B after their processing chains */
+  const filteredA = useMemo(() => processSeries(series, chainA), [series, chainA]);
+  const filteredB = useMemo(() => processSeries(seriesB, chainB), [seriesB, chainB]);
+  const plotA = filteredA ?? series ?? undefined;
+  const plotB = filteredB ?? seriesB ?? undefined;
+
+  const overlayA = useMemo(
+    () => overlayFor(plotA, selectedChannel, chainA),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [vsOn, vsSheet, plotA, selectedChannel, chainA, alignShift, session, vsLabel]
+  );
+  const overlayB = useMemo(
+    () => overlayFor(plotB, selectedChannelB, chainB),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [vsOn, vsSheet, plotB, selectedChannelB, chainB, alignShift, session, vsLabel]
+  );
+
+  /**
+   * Traces for a metric's graph: the vs overlay and / or the filtered trace
+   * with the raw one underneath. Derivatives change units, so no raw there.
+   */
+  const tracesFor = (
+    raw: ChannelTrace | null,
+    filtered: SeriesPoint[] | null,
+    chain: FilterStep[],
+    overlay: GraphSeries[] | undefined
+  ): GraphSeries[] | undefined => {
+    if (!filtered) return overlay;
+    const base = (overlay ?? [{ id: "main", label: "Filtered", data: filtered }]).map((sr, i) => ({
+      ...sr,
+      color: sr.color ?? seriesColor(i),
+    }));
+    if (!showRawTrace || !raw || chain.some((s) => s.kind === "derivative")) return base;
+    return [{ id: "raw", label: "Raw", data: raw, color: RAW_TRACE_COLOR }, ...base];
+  };
+  const tracesA = useMemo(
+    () => tracesFor(series, filteredA, chainA, overlayA),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [series, filteredA, chainA, overlayA, showRawTrace]
+  );
+  const tracesB = useMemo(
+    () => tracesFor(seriesB, filteredB, chainB, overlayB),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [seriesB, filteredB, chainB, overlayB, showRawTrace]
+  );
 
   /* Clean blob URLs */
   useEffect(() => {
     return () => {
-      if (fbxUrl?.startsWith("blob:")) URL.revokeObjectURL(fbxUrl);
+      if (model?.url.startsWith("blob:")) URL.revokeObjectURL(model.url);
     };
-  }, [fbxUrl]);
+  }, [model]);
 
   /* Admin uploads */
-  function handleFbxFile(e: React.ChangeEvent<HTMLInputElement>) {
+  function handleModelFile(e: React.ChangeEvent<HTMLInputElement>) {
     if (mode !== "admin") return;
     const file = e.target.files?.[0];
     if (!file) return;
-    if (fbxUrl?.startsWith("blob:")) URL.revokeObjectURL(fbxUrl);
-    setFbxUrl(URL.createObjectURL(file));
+    const format = modelFormatFromName(file.name);
+    if (!format) {
+      alert(`Unsupported model file: ${file.name}\n\nUse ${MODEL_FILE_ACCEPT.replace(/,/g, ", ")}.`);
+      return;
+    }
+    setModel({ url: URL.createObjectURL(file), format });
+    setFbxDuration(0);
     setPlaying(true);
     setTime(0);
   }
@@ -506,12 +1329,13 @@ export default function ThreeView() {
     try {
       const text = await file.text();
       const parsed = JSON.parse(text);
-      const arr = normalizeToArray(parsed) ?? [];
-      const sets: RowsBySheet = { Data: arr };
-      setRowsBySheet(sets);
-      setSheetNames(["Data"]);
-      setSheet("Data");
-      setRows(arr);
+      const arr = normalizeToArray(parsed);
+      const sets = sessionFromSets(arr ? { Data: arr } : normalizeToSheets(parsed));
+      const names = Object.keys(sets);
+      if (!names.length) throw new Error("Expected an array of samples or an object of sheet arrays.");
+      const preferred = names.find((n) => /joint.*position/i.test(n)) ?? names[0];
+      setSessionData(sets);
+      setSheet(preferred);
     } catch (err: any) {
       console.error("JSON load error:", err);
       alert(`Couldn't read that JSON.\n\n${err?.message ?? err}`);
@@ -523,7 +1347,7 @@ export default function ThreeView() {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
-      const sets = await parseExcelToDataSets(file, FPS);
+      const sets = await parseDataFileInWorker(file, fps);
       const names = Object.keys(sets);
       if (!names.length) throw new Error("No usable sheets found.");
 
@@ -532,30 +1356,156 @@ export default function ThreeView() {
         names.find((n) => /baseball.*data/i.test(n)) ??
         names[0];
 
-      setRowsBySheet(sets);
-      setSheetNames(names);
+      setSessionData(sets);
       setSheet(preferred);
-      setRows(sets[preferred]);
       setPlaying(true);
       setTime(0);
     } catch (err: any) {
-      console.error("Excel load error:", err);
-      alert(`Couldn't read that Excel file.\n\n${err?.message ?? err}`);
+      console.error("Data file load error:", err);
+      alert(`Couldn't read that data file.\n\n${err?.message ?? err}`);
     }
   }
 
   function exportCurrentJSON() {
-    if (!rows || rows.length === 0) return;
-    const blob = new Blob([JSON.stringify(rows)], { type: "application/json" });
-    const a = document.createElement("a");
-    a.href = URL.createObjectURL(blob);
-    a.download = `${(sheet ?? "data").replace(/\s+/g, "_")}.json`;
-    document.body.appendChild(a);
-    a.click();
-    setTimeout(() => URL.revokeObjectURL(a.href), 800);
-    a.remove();
+    if (!sheetData) return;
+    const blob = new Blob([JSON.stringify(sheetToRows(sheetData))], { type: "application/json" });
+    downloadBlob(blob, `${(sheet ?? "data").replace(/\s+/g, "_")}.json`);
   }
 
+  /* Video export: step time frame by frame, render synchronously, encode */
+  const captureRef = useRef<CaptureHandle | null>(null);
+  const [showExport, setShowExport] = useState(false);
+
+  const runVideoExport = useCallback(
+    async (opts: VideoExportOptions, onProgress: (done: number, total: number) => void, signal: AbortSignal) => {
+      const bridge = captureRef.current;
+      if (!bridge) throw new Error("3D view isn't ready yet");
+      const wasPlaying = playing;
+      const prevTime = timeRef.current;
+      setPlaying(false);
+      try {
+        const { blob, ext } = await exportVideo(
+          opts,
+          {
+            seek: (t) => flushSync(() => setTime(t)),
+            render: () => bridge.render(),
+            graphs: () => Array.from(document.querySelectorAll<SVGSVGElement>("[data-graph-dock] svg")),
+          },
+          onProgress,
+          signal
+        );
+        const base = `${playerName}_${session ?? "session"}`.replace(/\s+/g, "_");
+        downloadBlob(blob, `${base}_${opts.start.toFixed(2)}-${opts.end.toFixed(2)}s.${ext}`);
+      } finally {
+        setTime(prevTime);
+        setPlaying(wasPlaying);
+      }
+    },
+    [playing, playerName, session]
+  );
+
+  /* Sync panel: nudges and auto-align are stored per take in this browser */
+  const [showSync, setShowSync] = useState(false);
+  const assetRef = useRef<{ asset: ModelAsset; clip: THREE.AnimationClip | null } | null>(null);
+  const modelJointsRef = useRef<{ clip: THREE.AnimationClip; data: JointData } | null>(null);
+  const onAsset = useCallback((asset: ModelAsset, clip: THREE.AnimationClip | null) => {
+    assetRef.current = { asset, clip };
+    setModelRate(clip ? clipRate(clip) : null);
+  }, []);
+
+  const setCustomSync = useCallback(
+    (next: TimeSync | null) => {
+      if (!syncKey) return;
+      setSyncOverrides((prev) => {
+        const out = { ...prev };
+        if (next) out[syncKey] = next;
+        else delete out[syncKey];
+        return out;
+      });
+    },
+    [syncKey]
+  );
+
+  const syncJoints = useMemo(
+    () => (jointData ? Object.keys(jointData.tracks).filter((k) => k.startsWith("/Joint/")) : []),
+    [jointData]
+  );
+
+  const autoAlign = useCallback(
+    async (joint: string | null) => {
+      const loaded = assetRef.current;
+      if (!loaded?.clip || !jointData) throw new Error("Needs both an animated model and joint positions.");
+      const { asset, clip } = loaded;
+      // Sampling the skeleton is the slow part; reuse it while the clip stays the same
+      let modelJoints = modelJointsRef.current?.clip === clip ? modelJointsRef.current.data : null;
+      if (!modelJoints) {
+        modelJoints = sampleModelJoints(asset.object, clip, asset.scale, fps);
+        modelJointsRef.current = { clip, data: modelJoints };
+      }
+      const shared = commonSyncJoints(jointData, modelJoints);
+      if (joint && !shared.includes(joint)) throw new Error(`The model has no bone matching ${jointLabel(joint)}.`);
+      if (!shared.length) throw new Error("No model bones match the joints in the data.");
+
+      const stretch = stretchSync(duration, dataDuration).rate;
+      const rates = Math.abs(stretch - 1) > 1e-3 ? [1, stretch] : [1];
+      let best: SyncEstimate | null = null;
+      for (const key of joint ? [joint] : shared.slice(0, 3)) {
+        const est = estimateSync(jointData, jointData.tracks[key], modelJoints, modelJoints.tracks[key], rates);
+        if (est && (!best || est.score > best.score)) best = est;
+      }
+      return best;
+    },
+    [jointData, duration, dataDuration, fps]
+  );
+
+  /* Session report: stills at the swing events + static graphs + summary tables */
+  const [showReport, setShowReport] = useState(false);
+
+  const runReport = useCallback(
+    async (opts: ReportOptions) => {
+      const stills: ReportStill[] = [];
+      const bridge = captureRef.current;
+      if (opts.stills && bridge && duration > 0) {
+        // Events when we have them, otherwise evenly spaced through the clip
+        const targets = swingEvents.length
+          ? swingEvents.map((ev) => ({ label: ev.label, tData: ev.t }))
+          : [0, 0.25, 0.5, 0.75, 1].map((f) => ({ label: `${Math.round(f * 100)}%`, tData: toDataTime(f * duration) }));
+        const wasPlaying = playing;
+        const prevTime = timeRef.current;
+        setPlaying(false);
+        try {
+          for (const { label, tData } of targets) {
+            flushSync(() => setTime(Math.min(duration, Math.max(0, toModelTime(tData)))));
+            stills.push({ label, t: tData, dataUrl: snapshotCanvas(bridge.render(), 640, 400) });
+          }
+        } finally {
+          setTime(prevTime);
+          setPlaying(wasPlaying);
+        }
+      }
+
+      const html = buildReportHtml({
+        player: playerName,
+        session: session ?? "Session",
+        sheet,
+        generatedAt: new Date(),
+        notes: opts.notes,
+        stills,
+        channels: sheetData
+          ? opts.channels.map((k) => {
+              const trace = channelTrace(sheetData, k);
+              return { key: k, label: prettyLabel(k), data: trace ? tracePoints(trace) : [] };
+            })
+          : [],
+        sequence,
+        events: swingEvents,
+      });
+      const base = `${playerName}_${session ?? "session"}`.replace(/\s+/g, "_");
+      downloadBlob(new Blob([html], { type: "text/html" }), `${base}_report.html`);
+    },
+    [duration, toDataTime, toModelTime, swingEvents, sequence, playing, playerName, session, sheet, sheetData]
+  );
+
   /* Helpers */
   function normalizeToArray(obj: any): any[] | null {
     if (Array.isArray(obj)) return obj;
@@ -567,25 +1517,22 @@ export default function ThreeView() {
     return null;
   }
 
+  /** `{ [sheet]: rows[] }`, i.e. a whole RowsBySheet saved as JSON. */
+  function normalizeToSheets(obj: unknown): RowsBySheet {
+    const out: RowsBySheet = {};
+    if (!obj || typeof obj !== "object") return out;
+    for (const [name, v] of Object.entries(obj as Record<string, unknown>)) {
+      if (Array.isArray(v) && v.length && typeof v[0] === "object") out[name] = v;
+    }
+    return out;
+  }
+
   function prettyLabel(k: string): string {
     const parts = k.split("/").filter(Boolean);
     const tail = parts.slice(-2).join(" / ");
     return (tail || k).replace(/_/g, " ");
   }
 
-  function listNumericChannels(data: Array<Record<string, unknown>>): string[] {
-    const set = new Set<string>();
-    for (const d of data) {
-      if (!d || typeof d !== "object") continue;
-      for (const k of Object.keys(d)) {
-        if (k === "t" || k === "time" || k === "frame") continue;
-        const v = (d as any)[k];
-        if (typeof v === "number" && Number.isFinite(v)) set.add(k);
-      }
-    }
-    return Array.from(set).sort();
-  }
-
   function pickPreferredChannel(list: string[]): string | null {
     return (
       list.find((k) => /Wrist.*Velocity/i.test(k)) ??
@@ -596,57 +1543,13 @@ export default function ThreeView() {
     );
   }
 
-  function buildSeries(
-    data: Array<Record<string, unknown>>,
-    channel: string | null
-  ): { pts: SeriesPoint[]; dur: number } {
-    if (!data || data.length === 0 || !channel) return { pts: [], dur: 0 };
-
-    const hasT = data.some((d) => typeof (d as any)?.t === "number");
-    const hasTime = data.some((d) => typeof (d as any)?.time === "number");
-    const tKey: "t" | "time" | null = hasT ? "t" : hasTime ? "time" : null;
-
-    const n = data.length;
-    const pts: SeriesPoint[] = [];
-
-    for (let i = 0; i < n; i++) {
-      const row = data[i] as any;
-      const rawV = row?.[channel];
-      if (typeof rawV !== "number" || !Number.isFinite(rawV)) continue;
-
-      let t: number;
-      if (tKey) {
-        const tv = Number(row[tKey]);
-        if (!Number.isFinite(tv)) continue;
-        t = tv;
-      } else {
-        t = n > 1 ? i / (n - 1) : 0;
-      }
-      pts.push({ t, value: rawV });
-    }
-
-    if (pts.length === 0) return { pts: [], dur: 0 };
-
-    const t0 = pts[0].t ?? 0;
-    const t1 = pts[pts.length - 1].t ?? 0;
-    const dur = Math.max(0, t1 - t0);
-
-    const normalized: SeriesPoint[] = pts.map((p) => ({
-      t: (p.t ?? 0) - t0,
-      value: p.value,
-    }));
-
-    return { pts: normalized, dur };
-  }
-
   useEffect(() => {
-    if (!rowsBySheet || !sheet) return;
-    const newRows = rowsBySheet[sheet];
-    setRows(newRows);
-
-    const chs = listNumericChannels(newRows);
-    setChannels(chs);
+    if (dataSets && sheet && !(sheet in dataSets)) setSheet(Object.keys(dataSets)[0] ?? null);
+  }, [dataSets, sheet]);
 
+  useEffect(() => {
+    if (!sheetData) return;
+    const chs = sheetData.keys;
     setSelectedChannel((prev) => (prev && chs.includes(prev) ? prev : pickPreferredChannel(chs)));
     setSelectedChannelB((prev) => {
       if (prev && chs.includes(prev)) return prev;
@@ -654,38 +1557,65 @@ export default function ThreeView() {
       const second = chs.find((k) => k !== first) ?? first ?? null;
       return second;
     });
-  }, [rowsBySheet, sheet]);
-
-  useEffect(() => {
-    if (!rows || !selectedChannel) {
-      setSeries(null);
-      setJsonDuration(0);
-      return;
-    }
-    const { pts, dur } = buildSeries(rows, selectedChannel);
-    setSeries(pts);
-    setJsonDuration(dur);
-  }, [rows, selectedChannel]);
-
-  useEffect(() => {
-    if (!rows || !selectedChannelB) {
-      setSeriesB(null);
-      return;
-    }
-    const { pts } = buildSeries(rows, selectedChannelB);
-    setSeriesB(pts);
-  }, [rows, selectedChannelB]);
+  }, [sheetData]);
 
   /* FBX duration callback */
   const onReadyDuration = useCallback((dur: number) => {
-    setDuration(dur);
+    setFbxDuration(dur);
     setTime((t) => (dur > 0 ? (t % dur + dur) % dur : 0));
   }, []);
 
+  /* Loop region: keep inside the clip, mirror into the URL */
+  useEffect(() => {
+    if (!loopRegion || duration <= 0) return;
+    const a = Math.min(loopRegion[0], duration);
+    const b = Math.min(loopRegion[1], duration);
+    if (b - a < 1 / fps) setLoopRegion(null);
+    else if (a !== loopRegion[0] || b !== loopRegion[1]) setLoopRegion([a, b]);
+  }, [loopRegion, duration, fps]);
+
+  useEffect(() => {
+    if (!isBrowser) return;
+    const sp = new URLSearchParams(window.location.search);
+    if (loopRegion) {
+      sp.set("in", loopRegion[0].toFixed(3));
+      sp.set("out", loopRegion[1].toFixed(3));
+    } else {
+      sp.delete("in");
+      sp.delete("out");
+    }
+    if (loopMode !== "loop") sp.set("loop", loopMode);
+    else sp.delete("loop");
+    const newUrl = `${window.location.pathname}?${sp.toString()}`;
+    if (newUrl !== window.location.href) window.history.replaceState({}, "", newUrl);
+  }, [loopRegion, loopMode]);
+
+  /** Set the in (or out) point at `t`, keeping the other end when it still makes sense. */
+  const setLoopPoint = useCallback(
+    (which: "in" | "out", t: number) => {
+      if (duration <= 0) return;
+      const [a, b] = loopRegion ?? [0, duration];
+      const next: [number, number] =
+        which === "in" ? [t, t < b ? b : duration] : [t > a ? a : 0, t];
+      if (next[1] - next[0] < 1 / fps) return;
+      // Dragging a handle back to the clip edges clears the region
+      if (next[0] <= 0 && next[1] >= duration) setLoopRegion(null);
+      else setLoopRegion(next);
+    },
+    [loopRegion, duration, fps]
+  );
+
   /* Playback loop */
   const rafRef = useRef<number | null>(null);
   const lastTsRef = useRef<number | null>(null);
   const subFrameAccRef = useRef<number>(0);
+  const directionRef = useRef<1 | -1>(1); // ping-pong direction
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  useEffect(() => {
+    directionRef.current = 1;
+  }, [loopMode, loopRegion]);
 
   const cancelLoop = useCallback(() => {
     if (rafRef.current) cancelAnimationFrame(rafRef.current);
@@ -708,52 +1638,120 @@ export default function ThreeView() {
       setTime((prev) => {
         if (!playing || duration <= 0) return prev;
         let s = Math.min(2, Math.max(0.1, speed));
-        const delta = dt * s;
 
-        if (!snapFrames) {
-          let next = prev + delta;
-          if (duration > 0) next = ((next % duration) + duration) % duration;
-          return next;
+        // Repeat inside the loop region when one is set, else the whole clip
+        const lo = loopRegion ? loopRegion[0] : 0;
+        const hi = loopRegion ? loopRegion[1] : duration;
+        const span = hi - lo;
+        if (span <= 0) return prev;
+        if (loopRegion && (prev < lo || prev > hi)) return lo;
+
+        const step = 1 / fps;
+        let delta = dt * s;
+        if (snapFrames) {
+          let acc = subFrameAccRef.current + delta;
+          const frames = Math.floor(acc / step);
+          subFrameAccRef.current = acc - frames * step;
+          if (frames <= 0) return prev;
+          delta = frames * step;
         }
 
-        const step = 1 / FPS;
-        let acc = subFrameAccRef.current + delta;
-        const frames = Math.floor(acc / step);
-        subFrameAccRef.current = acc - frames * step;
-        if (frames <= 0) return prev;
-
-        let next = prev + frames * step;
-        if (duration > 0) {
-          next = ((next % duration) + duration) % duration;
-          next = Math.min(Math.max(0, next), Math.max(0, duration - step / 2));
+        let next = prev + directionRef.current * delta;
+        if (loopMode === "once") return Math.min(hi, next);
+        if (loopMode === "pingpong") {
+          if (next > hi) {
+            next = hi - (next - hi);
+            directionRef.current = -1;
+          } else if (next < lo) {
+            next = lo + (lo - next);
+            directionRef.current = 1;
+          }
+          return Math.min(hi, Math.max(lo, next));
         }
+
+        next = lo + (((next - lo) % span) + span) % span;
+        if (snapFrames) next = Math.min(Math.max(lo, next), Math.max(lo, hi - step / 2));
         return next;
       });
 
       rafRef.current = requestAnimationFrame(loop);
     };
     rafRef.current = requestAnimationFrame(loop);
-  }, [cancelLoop, playing, duration, speed, snapFrames]);
+  }, [cancelLoop, playing, duration, speed, snapFrames, loopRegion, loopMode, fps]);
 
   useEffect(() => {
     startLoop();
     return cancelLoop;
   }, [startLoop, cancelLoop]);
 
+  // "Play once" pauses at the out point; playing again restarts from the in point
+  useEffect(() => {
+    if (loopMode !== "once" || !playing || duration <= 0) return;
+    if (time >= (loopRegion ? loopRegion[1] : duration)) setPlaying(false);
+  }, [loopMode, playing, time, loopRegion, duration]);
+
+  const togglePlay = useCallback(() => {
+    if (!playing && loopMode === "once" && duration > 0) {
+      const [lo, hi] = loopRegion ?? [0, duration];
+      if (timeRef.current >= hi - 1 / fps) setTime(lo);
+    }
+    setPlaying((p) => !p);
+  }, [playing, loopMode, loopRegion, duration, fps]);
+
+  /* Graph (JSON) time ↔ FBX time */
+  const jsonToPlayback = useCallback(
+    (tJson: number) => {
+      let t = toModelTime(tJson);
+      if (snapFrames) t = Math.round(t * fps) / fps;
+      return Math.max(0, Math.min(duration, t));
+    },
+    [duration, toModelTime, snapFrames, fps]
+  );
+
   /* Seek from graphs (map JSON time → FBX time) */
   const handleGraphSeek = useCallback(
     (tJson: number) => {
-      if (duration > 0 && jsonDuration > 0) {
-        let t = (tJson / jsonDuration) * duration;
-        if (snapFrames) t = Math.round(t * FPS) / FPS;
-        setTime(Math.max(0, Math.min(duration, t)));
-      } else if (duration > 0) {
-        let t = Math.max(0, Math.min(duration, tJson));
-        if (snapFrames) t = Math.round(t * FPS) / FPS;
-        setTime(t);
+      if (duration > 0) setTime(jsonToPlayback(tJson));
+    },
+    [duration, jsonToPlayback]
+  );
+
+  /* Graph brush selection ↔ loop region */
+  const graphSelection = useMemo<GraphRange | null>(() => {
+    if (!loopRegion) return null;
+    return [toDataTime(loopRegion[0]), toDataTime(loopRegion[1])];
+  }, [loopRegion, toDataTime]);
+
+  const handleGraphSelection = useCallback(
+    (range: GraphRange | null) => {
+      if (!range || duration <= 0) {
+        setLoopRegion(null);
+        return;
       }
+      const a = jsonToPlayback(range[0]);
+      const b = jsonToPlayback(range[1]);
+      if (b - a < 1 / fps) return;
+      setLoopRegion([a, b]);
+      setTime(a);
+    },
+    [duration, jsonToPlayback, fps]
+  );
+
+  /* Jump between detected swing events ([ / ] or Shift+←/→) */
+  const dataTimeRef = useRef(dataTime);
+  dataTimeRef.current = dataTime;
+
+  const jumpToEvent = useCallback(
+    (dir: 1 | -1) => {
+      const now = dataTimeRef.current;
+      const eps = 1 / fps;
+      const target =
+        dir > 0
+          ? swingEvents.find((ev) => ev.t > now + eps)
+          : [...swingEvents].reverse().find((ev) => ev.t < now - eps);
+      if (target) handleGraphSeek(target.t);
     },
-    [duration, jsonDuration, snapFrames]
+    [swingEvents, handleGraphSeek, fps]
   );
 
   /* Controls + Camera refs */
@@ -790,19 +1788,40 @@ export default function ThreeView() {
     const onKeyDown = (e: KeyboardEvent) => {
       if (["INPUT", "TEXTAREA", "SELECT"].includes((e.target as HTMLElement)?.tagName)) return;
       const key = e.key.toLowerCase();
-      const step = 1 / FPS;
+      const step = 1 / fps;
+
+      const eventDir =
+        key === "]" || (e.shiftKey && key === "arrowright")
+          ? 1
+          : key === "[" || (e.shiftKey && key === "arrowleft")
+            ? -1
+            : 0;
+      if (eventDir !== 0 && swingEvents.length > 0) {
+        e.preventDefault();
+        jumpToEvent(eventDir);
+        return;
+      }
 
       if (key === " ") {
         e.preventDefault();
-        setPlaying((p) => !p);
+        togglePlay();
+      } else if (key === "i" || key === "o") {
+        e.preventDefault();
+        setLoopPoint(key === "i" ? "in" : "out", timeRef.current);
+      } else if (key === "x") {
+        e.preventDefault();
+        setLoopRegion(null);
+      } else if (key === "l") {
+        e.preventDefault();
+        setLoopMode((m) => LOOP_MODES[(LOOP_MODES.findIndex((x) => x.id === m) + 1) % LOOP_MODES.length].id);
       } else if (key === "arrowright") {
         e.preventDefault();
         if (duration > 0)
-          setTime((t) => Math.min(duration, snapFrames ? Math.round((t + step) * FPS) / FPS : t + step));
+          setTime((t) => Math.min(duration, snapFrames ? Math.round((t + step) * fps) / fps : t + step));
       } else if (key === "arrowleft") {
         e.preventDefault();
         if (duration > 0)
-          setTime((t) => Math.max(0, snapFrames ? Math.round((t - step) * FPS) / FPS : t - step));
+          setTime((t) => Math.max(0, snapFrames ? Math.round((t - step) * fps) / fps : t - step));
       } else if (key === "arrowup") {
         e.preventDefault();
         setSpeed((s) => Math.min(2, Math.max(0.1, Math.round((s + 0.1) * 10) / 10)));
@@ -815,18 +1834,22 @@ export default function ThreeView() {
       } else if (key === "g") {
         e.preventDefault();
         setShowSecond((v) => !v);
+      } else if (key === "," || key === ".") {
+        e.preventDefault();
+        stepTake(key === "," ? -1 : 1);
       }
     };
 
     window.addEventListener("keydown", onKeyDown, { passive: false });
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [duration, snapFrames, applyHomeView]);
+  }, [duration, snapFrames, applyHomeView, swingEvents, jumpToEvent, togglePlay, setLoopPoint, stepTake, fps]);
 
   /* Render */
   const toolbarVars = (isPlayer
     ? ({ ["--brand-img" as any]: "56px", ["--brand-text" as any]: "24px" })
     : ({ ["--brand-img" as any]: "28px", ["--brand-text" as any]: "18px" })) as React.CSSProperties;
 
+  const timelineWidth = isCompact ? 180 : isPlayer ? 360 : 320;
   const availableGraphs = (series ? 1 : 0) + (seriesB ? 1 : 0);
   const activeGraphCount = Math.min(requestedGraphCount, availableGraphs);
   const shouldShowBottomDock =
@@ -846,17 +1869,29 @@ export default function ThreeView() {
         <div className="ctrl">
           <span className="label">Player</span>
           {isPlayerLocked ? (
-            <span className="pill" title={playerName} aria-label="Player">
+            <span className="pill" title={playerMeta ? `${playerName} · ${playerMeta}` : playerName} aria-label="Player">
               {playerName}
             </span>
           ) : (
-            <select className="select" value={playerName} onChange={(e) => setPlayerName(e.target.value)} title={playerName}>
-              {players.map((n) => (
-                <option key={n} value={n}>
-                  {n}
-                </option>
-              ))}
-            </select>
+            <>
+              <select
+                className="select"
+                value={playerName}
+                onChange={(e) => setPlayerName(e.target.value)}
+                title={playerMeta ? `${playerName} · ${playerMeta}` : playerName}
+              >
+                {players.map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+              {onShowRoster && (
+                <button className="btn ghost" onClick={onShowRoster} title="Back to the roster">
+                  Roster
+                </button>
+              )}
+            </>
           )}
         </div>
 
@@ -872,29 +1907,202 @@ export default function ThreeView() {
           >
             {sessions.map((s) => (
               <option key={s} value={s}>
-                {s}
+                {sessionLabel(manifest, s)}
               </option>
             ))}
           </select>
         </div>
 
+        {/* Take (swing) within the session, and clip within the model */}
+        {takes.length > 0 && (
+          <div className="ctrl">
+            <span className="label">Take</span>
+            <button className="btn ghost" onClick={() => stepTake(-1)} disabled={takes.length < 2} title="Previous take (,)">
+              ‹
+            </button>
+            <select
+              className="select"
+              value={activeTake ?? ""}
+              onChange={(e) => setTake(e.target.value)}
+              title={takes[takeIndex] ? takeLabel(takes[takeIndex]) : activeTake ?? undefined}
+            >
+              {takes.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {takeLabel(t)}
+                </option>
+              ))}
+            </select>
+            <button className="btn ghost" onClick={() => stepTake(1)} disabled={takes.length < 2} title="Next take (.)">
+              ›
+            </button>
+          </div>
+        )}
+        {model && clipNames.length > 1 && (
+          <div className="ctrl">
+            <span className="label">Clip</span>
+            <select
+              className="select"
+              value={Math.max(0, typeof activeClip === "string" ? clipNames.indexOf(activeClip) : activeClip ?? 0)}
+              onChange={(e) => setClipChoice(Number(e.target.value))}
+            >
+              {clipNames.map((n, i) => (
+                <option key={i} value={i}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Comparison session */}
+        <div className="ctrl">
+          <span className="label">Vs</span>
+          {!isPlayerLocked && players.length > 1 && (
+            <select
+              className="select"
+              value={vsPlayer}
+              onChange={(e) => {
+                setVsPlayer(e.target.value);
+                setVsSession(null);
+              }}
+              title={vsPlayer}
+            >
+              {players.map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            className="select"
+            value={vsSession ?? ""}
+            onChange={(e) => setVsSession(e.target.value || null)}
+            title="Compare against another session"
+            disabled={!vsSessions.length}
+          >
+            <option value="">None</option>
+            {vsSessions.map((s) => (
+              <option key={s} value={s}>
+                {sessionLabel(vsManifest, s)}
+              </option>
+            ))}
+          </select>
+          {vsSession && (
+            <>
+              <select
+                className="select"
+                value={alignOn}
+                onChange={(e) => setAlignOn(e.target.value as AlignOn)}
+                title={
+                  alignShift == null
+                    ? "Event not found in both swings — aligned on start"
+                    : `Align on event (${alignShift >= 0 ? "+" : ""}${Math.round(alignShift * 1000)} ms)`
+                }
+                style={{ minWidth: 110 }}
+              >
+                <option value="start">Align: start</option>
+                {(Object.keys(EVENT_META) as SwingEventId[]).map((id) => (
+                  <option key={id} value={id}>
+                    Align: {EVENT_META[id].label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="select"
+                value={vsView}
+                onChange={(e) => setVsView(e.target.value as CompareView)}
+                style={{ minWidth: 100 }}
+              >
+                <option value="ghost">Ghosted</option>
+                <option value="side">Side by side</option>
+              </select>
+            </>
+          )}
+        </div>
+
         {/* Timeline + Speed */}
         <div className="ctrl grow">
           <span className="label">Time</span>
-          <input
-            className="slider"
-            type="range"
-            min={0}
-            max={Math.max(0.001, duration || 0.001)}
-            step={snapFrames ? 1 / FPS : Math.max(0.001, (duration || 1) / 1000)}
-            value={Math.min(time, duration || 0)}
-            onChange={(e) => {
-              const t = parseFloat(e.target.value);
-              setTime(snapFrames ? Math.round(t * FPS) / FPS : t);
-            }}
-            disabled={duration <= 0}
-            style={{ width: isCompact ? 180 : isPlayer ? 360 : 320 }}
-          />
+          <div className="timeline" style={{ width: timelineWidth }}>
+            <input
+              className="slider"
+              type="range"
+              min={0}
+              max={Math.max(0.001, duration || 0.001)}
+              step={snapFrames ? 1 / fps : Math.max(0.001, (duration || 1) / 1000)}
+              value={Math.min(time, duration || 0)}
+              onChange={(e) => {
+                const t = parseFloat(e.target.value);
+                setTime(snapFrames ? Math.round(t * fps) / fps : t);
+              }}
+              disabled={duration <= 0}
+              style={{ width: timelineWidth }}
+            />
+            {duration > 0 && loopRegion && (
+              <div
+                className="timeline-region"
+                style={{
+                  left: 8 + (loopRegion[0] / duration) * (timelineWidth - 16),
+                  width: ((loopRegion[1] - loopRegion[0]) / duration) * (timelineWidth - 16),
+                }}
+              />
+            )}
+            {duration > 0 &&
+              (["in", "out"] as const).map((which) => {
+                const t = loopRegion ? loopRegion[which === "in" ? 0 : 1] : which === "in" ? 0 : duration;
+                return (
+                  <div
+                    key={which}
+                    className={`timeline-handle ${which}`}
+                    style={{ left: 8 + (t / duration) * (timelineWidth - 16) }}
+                    title={`Drag to set the ${which} point (${which === "in" ? "I" : "O"})`}
+                    onPointerDown={(e) => {
+                      e.preventDefault();
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                    }}
+                    onPointerMove={(e) => {
+                      if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+                      const box = e.currentTarget.parentElement!.getBoundingClientRect();
+                      const frac = Math.min(1, Math.max(0, (e.clientX - box.left - 8) / (box.width - 16)));
+                      let tNew = frac * duration;
+                      if (snapFrames) tNew = Math.round(tNew * fps) / fps;
+                      setLoopPoint(which, tNew);
+                    }}
+                    onPointerUp={(e) => e.currentTarget.releasePointerCapture(e.pointerId)}
+                  />
+                );
+              })}
+            {showEvents &&
+              duration > 0 &&
+              swingEvents.map((ev) => {
+                // 8px inset = half the slider thumb, so ticks line up with the thumb centre
+                const frac = Math.min(1, Math.max(0, toModelTime(ev.t) / duration));
+                return (
+                  <button
+                    key={ev.id}
+                    type="button"
+                    className="timeline-mark"
+                    style={{ left: 8 + frac * (timelineWidth - 16), background: ev.color }}
+                    title={`${ev.label} · ${ev.t.toFixed(3)}s  ([ / ] to step events)`}
+                    onClick={() => handleGraphSeek(ev.t)}
+                  >
+                    <span>{ev.label.charAt(0)}</span>
+                  </button>
+                );
+              })}
+          </div>
+          <span
+            className="small"
+            title={[
+              `${rate.fps} fps from ${rate.source === "model" ? "the model's keyframes" : rate.source === "data" ? "the sheets' Time column" : "the default"}`,
+              ...(rateWarning ? rate.warnings : []),
+            ].join("\n")}
+            style={{ whiteSpace: "nowrap", color: rateWarning ? "#f59e0b" : undefined }}
+          >
+            {rateWarning ? "⚠ " : ""}
+            {rate.fps} fps
+          </span>
         </div>
         <div className="ctrl">
           <span className="label">Speed</span>
@@ -913,12 +2121,34 @@ export default function ThreeView() {
         </div>
 
         {/* Transport */}
-        <button className="btn primary" onClick={() => setPlaying((p) => !p)} disabled={duration <= 0}>
+        <button className="btn primary" onClick={togglePlay} disabled={duration <= 0}>
           {playing ? "Pause" : "Play"}
         </button>
         <button className="btn" onClick={() => setTime(0)} disabled={duration <= 0}>
           Reset
         </button>
+        <select
+          className="select"
+          value={loopMode}
+          onChange={(e) => setLoopMode(e.target.value as LoopMode)}
+          title="Repeat mode (L)"
+          style={{ minWidth: 110 }}
+        >
+          {LOOP_MODES.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        {loopRegion && (
+          <button
+            className="btn ghost"
+            onClick={() => setLoopRegion(null)}
+            title="Repeating the in/out range (I / O to set, X to clear)"
+          >
+            {loopRegion[0].toFixed(2)}–{loopRegion[1].toFixed(2)}s ✕
+          </button>
+        )}
 
         {/* Sheet + Metrics */}
         <div className="ctrl">
@@ -953,6 +2183,13 @@ export default function ThreeView() {
                   </option>
                 ))}
               </select>
+              <FilterChain
+                steps={chainA}
+                onChange={(steps) => setChain(selectedChannel, steps)}
+                showRaw={showRawTrace}
+                onShowRaw={setShowRawTrace}
+                title={selectedChannel ? `Filters · ${prettyLabel(selectedChannel)}` : undefined}
+              />
             </div>
 
             {!studio && (
@@ -970,11 +2207,56 @@ export default function ThreeView() {
                     </option>
                   ))}
                 </select>
+                <FilterChain
+                  steps={chainB}
+                  onChange={(steps) => setChain(selectedChannelB, steps)}
+                  showRaw={showRawTrace}
+                  onShowRaw={setShowRawTrace}
+                  title={selectedChannelB ? `Filters · ${prettyLabel(selectedChannelB)}` : undefined}
+                />
               </div>
             )}
           </>
         )}
 
+        {/* Multi-channel compare */}
+        {channels.length > 0 && !studio && (
+          <div className="ctrl">
+            <span className="label">Compare</span>
+            <select
+              className="select"
+              value={compareLayout}
+              onChange={(e) => setCompareLayout(e.target.value as CompareLayout)}
+              style={{ minWidth: 110 }}
+            >
+              <option value="off">Off</option>
+              <option value="overlay">Overlay</option>
+              <option value="grid">Grid</option>
+            </select>
+            {compareLayout !== "off" && (
+              <>
+                <ChannelPicker
+                  channels={channels}
+                  selected={compareChannels}
+                  onChange={setCompareChannels}
+                  format={prettyLabel}
+                />
+                <select
+                  className="select"
+                  value={normalizeMode}
+                  onChange={(e) => setNormalizeMode(e.target.value as GraphNormalize)}
+                  title="Normalize each channel"
+                  style={{ minWidth: 100 }}
+                >
+                  <option value="none">Raw</option>
+                  <option value="zscore">Z-score</option>
+                  <option value="minmax">0–1</option>
+                </select>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Graph toggles — labels updated */}
         <label className="toggle">
           <input type="checkbox" checked={showMainGraph} onChange={(e) => setShowMainGraph(e.target.checked)} />
@@ -986,6 +2268,109 @@ export default function ThreeView() {
             <span>Metric B</span>
           </label>
         )}
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={showSkeleton || !model}
+            onChange={(e) => setShowSkeleton(e.target.checked)}
+            disabled={!jointData || !model}
+          />
+          <span>Skeleton</span>
+        </label>
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={showSequence}
+            onChange={(e) => setShowSequence(e.target.checked)}
+            disabled={!sequence}
+          />
+          <span>Sequence</span>
+        </label>
+        <label className="toggle">
+          <input
+            type="checkbox"
+            checked={showEvents}
+            onChange={(e) => setShowEvents(e.target.checked)}
+            disabled={!swingEvents.length}
+          />
+          <span>Events</span>
+        </label>
+
+        {/* Onion skin */}
+        <div className="ctrl">
+          <span className="label">Onion</span>
+          <select
+            className="select"
+            value={onionMode}
+            onChange={(e) => setOnionMode(e.target.value as OnionMode)}
+            disabled={duration <= 0}
+            style={{ minWidth: 100 }}
+          >
+            <option value="off">Off</option>
+            <option value="frames">Frames</option>
+            <option value="events" disabled={!swingEvents.length}>
+              Events
+            </option>
+          </select>
+          {onionMode === "frames" && (
+            <input
+              className="input"
+              value={onionText}
+              onChange={(e) => setOnionText(e.target.value)}
+              onBlur={() => {
+                const list = onionText
+                  .split(/[,\s]+/)
+                  .map((x) => parseInt(x.replace("−", "-"), 10))
+                  .filter((n) => Number.isFinite(n) && n !== 0)
+                  .slice(0, 8);
+                const next = list.length ? list : DEFAULT_ONION_OFFSETS;
+                setOnionOffsets(next);
+                setOnionText(next.join(", "));
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+              }}
+              title={`Frame offsets at ${fps} fps (negative = earlier)`}
+              style={{ width: 110 }}
+            />
+          )}
+        </div>
+
+        {/* Trajectory trail */}
+        {trailOptions.length > 0 && (
+          <div className="ctrl">
+            <span className="label">Trail</span>
+            <select
+              className="select"
+              value={trailKey ?? ""}
+              onChange={(e) => setTrailKey(e.target.value || null)}
+              title={trailKey ?? undefined}
+            >
+              <option value="">Off</option>
+              {trailOptions.map((k) => (
+                <option key={k} value={k}>
+                  {jointLabel(k)}
+                </option>
+              ))}
+            </select>
+            {trailKey && (
+              <>
+                <input
+                  className="slider"
+                  type="range"
+                  min={10}
+                  max={600}
+                  step={10}
+                  value={trailLength}
+                  onChange={(e) => setTrailLength(parseInt(e.target.value, 10))}
+                  title="Trail length (frames)"
+                  style={{ width: isCompact ? 90 : 120 }}
+                />
+                <span className="small">{trailLength}f</span>
+              </>
+            )}
+          </div>
+        )}
 
         {/* Admin-only layout & snap */}
         {mode === "admin" && (
@@ -1006,6 +2391,22 @@ export default function ThreeView() {
               </select>
             </div>
 
+            <div className="ctrl">
+              <span className="label">Filter</span>
+              <input
+                className="select"
+                type="number"
+                min={0}
+                max={60}
+                step={1}
+                value={cutoffHz}
+                onChange={(e) => setCutoffHz(Math.max(0, Number(e.target.value) || 0))}
+                title="Butterworth low-pass cutoff for derived velocities (Hz, 0 = off)"
+                style={{ minWidth: 0, width: 64, paddingRight: 10 }}
+              />
+              <span className="small">Hz</span>
+            </div>
+
             <label className="toggle">
               <input type="checkbox" checked={snapFrames} onChange={(e) => setSnapFrames(e.target.checked)} />
               <span>Snap</span>
@@ -1017,20 +2418,35 @@ export default function ThreeView() {
             </label>
 
             <label className="btn" style={{ cursor: "pointer" }}>
-              Upload .fbx
-              <input type="file" accept=".fbx" onChange={handleFbxFile} style={{ display: "none" }} />
+              Upload model
+              <input type="file" accept={MODEL_FILE_ACCEPT} onChange={handleModelFile} style={{ display: "none" }} />
             </label>
             <label className="btn" style={{ cursor: "pointer" }}>
               Upload JSON
               <input type="file" accept=".json,application/json" onChange={handleJsonFile} style={{ display: "none" }} />
             </label>
             <label className="btn" style={{ cursor: "pointer" }}>
-              Upload Excel
-              <input type="file" accept=".xlsx,.xls,.csv" onChange={handleExcelFile} style={{ display: "none" }} />
+              Upload data
+              <input type="file" accept={DATA_FILE_ACCEPT} onChange={handleExcelFile} style={{ display: "none" }} />
             </label>
-            <button className="btn ghost" onClick={exportCurrentJSON} disabled={!rows || rows.length === 0}>
+            <button className="btn ghost" onClick={exportCurrentJSON} disabled={!sheetData}>
               Export JSON
             </button>
+            <button className="btn ghost" onClick={() => setShowExport((v) => !v)} disabled={duration <= 0}>
+              Export video
+            </button>
+            <button className="btn ghost" onClick={() => setShowReport((v) => !v)} disabled={!sheetData}>
+              Report
+            </button>
+            <button className="btn ghost" onClick={() => setShowSync((v) => !v)} disabled={!model || !jointData}>
+              Sync
+            </button>
+            <button className="btn ghost" onClick={() => setShowDiagnostics((v) => !v)} disabled={!sheetReport}>
+              Data quality
+            </button>
+            <button className="btn ghost" onClick={() => setShowCache((v) => !v)}>
+              Cache
+            </button>
           </>
         )}
       </div>
@@ -1068,7 +2484,35 @@ export default function ThreeView() {
           requestAnimationFrame(() => applyHomeView());
         }}
       >
-        <Scene fbxUrl={fbxUrl} time={time} onReadyDuration={onReadyDuration} mutedGrid={studio} />
+        <Scene
+          model={model}
+          clip={activeClip}
+          onClips={setClipNames}
+          onAsset={onAsset}
+          time={time}
+          onReadyDuration={onReadyDuration}
+          mutedGrid={studio}
+          jointData={jointData}
+          dataTime={dataTime}
+          showSkeleton={showSkeleton || !model}
+          trailKey={trailKey}
+          trailLength={trailLength}
+          onion={onionPoses}
+          compare={
+            vsOn
+              ? {
+                  view: vsView,
+                  model: vsModel,
+                  clip: vsClip,
+                  time: vsTime,
+                  onReadyDuration: onVsReadyDuration,
+                  jointData: vsJointData,
+                  dataTime: vsDataTime,
+                }
+              : null
+          }
+        />
+        <CaptureBridge handleRef={captureRef} />
 
         <OrbitControls
           ref={setControlsRef}
@@ -1084,48 +2528,167 @@ export default function ThreeView() {
         {/* In-3D graph panels */}
         {panelMode === "in3d" && showMainGraph && series && selectedChannel && (
           <GraphHoloPanel
-            title={`Signal • ${sheet ? sheet + " • " : ""}${prettyLabel(selectedChannel)}`}
+            title={`Signal • ${sheet ? sheet + " • " : ""}${prettyLabel(selectedChannel)}${chainA.length ? " • " + pipelineLabel(chainA) : ""}`}
             position={[...posMain]}
             setPosition={setPosMain}
             draggable={mode === "admin"}
           >
             <SimpleGraph
-              data={series}
+              data={plotA}
+              series={tracesA}
+              regions={regionsA}
               time={time}
               jsonDuration={jsonDuration || 0}
               fbxDuration={duration || 0}
+              dataTime={graphDataTime}
               height={200}
               title=""
               yLabel="Value"
               onSeek={handleGraphSeek}
+              selection={graphSelection}
+              onSelectionChange={handleGraphSelection}
+              markers={graphMarkers}
             />
           </GraphHoloPanel>
         )}
 
         {panelMode === "in3d" && !studio && showSecond && seriesB && selectedChannelB && (
           <GraphHoloPanel
-            title={`Signal • ${sheet ? sheet + " • " : ""}${prettyLabel(selectedChannelB)}`}
+            title={`Signal • ${sheet ? sheet + " • " : ""}${prettyLabel(selectedChannelB)}${chainB.length ? " • " + pipelineLabel(chainB) : ""}`}
             position={[...posSecond]}
             setPosition={setPosSecond}
             draggable={mode === "admin"}
           >
             <SimpleGraph
-              data={seriesB}
+              data={plotB}
+              series={tracesB}
+              regions={regionsB}
               time={time}
               jsonDuration={jsonDuration || 0}
               fbxDuration={duration || 0}
+              dataTime={graphDataTime}
               height={200}
               title=""
               yLabel="Value"
               onSeek={handleGraphSeek}
+              selection={graphSelection}
+              onSelectionChange={handleGraphSelection}
+              markers={graphMarkers}
             />
           </GraphHoloPanel>
         )}
       </Canvas>
 
+      {/* Kinematic sequence summary */}
+      {showSequence && sequence && (
+        <SequencePanel
+          result={sequence}
+          onSeek={handleGraphSeek}
+          style={{ position: "absolute", left: 12, top: isCompact ? 86 : 90, zIndex: 5 }}
+        />
+      )}
+
+      {/* Video export options */}
+      {showExport && mode === "admin" && (
+        <ExportPanel
+          duration={duration}
+          loopRegion={loopRegion}
+          hasGraphs={panelMode === "docked" && requestedGraphCount > 0}
+          onExport={runVideoExport}
+          onClose={() => setShowExport(false)}
+          style={{ position: "absolute", right: graphDock === "right" ? 444 : 12, top: isCompact ? 86 : 90, zIndex: 6 }}
+        />
+      )}
+
+      {/* Session report options */}
+      {showReport && mode === "admin" && (
+        <ReportPanel
+          channels={channels}
+          initialChannels={[selectedChannel, selectedChannelB].filter((k): k is string => !!k)}
+          format={prettyLabel}
+          onGenerate={runReport}
+          onClose={() => setShowReport(false)}
+          style={{
+            position: "absolute",
+            right: (graphDock === "right" ? 444 : 12) + (showExport ? 292 : 0),
+            top: isCompact ? 86 : 90,
+            zIndex: 6,
+          }}
+        />
+      )}
+
+      {/* Model ↔ data time sync */}
+      {showSync && mode === "admin" && model && (
+        <SyncPanel
+          sync={sync}
+          source={syncSource}
+          fps={fps}
+          joints={syncJoints}
+          format={jointLabel}
+          onChange={setCustomSync}
+          onReset={() => setCustomSync(null)}
+          onAutoAlign={autoAlign}
+          onClose={() => setShowSync(false)}
+          style={{
+            position: "absolute",
+            right: (graphDock === "right" ? 444 : 12) + (showExport ? 292 : 0) + (showReport ? 312 : 0),
+            top: isCompact ? 86 : 90,
+            zIndex: 6,
+          }}
+        />
+      )}
+
+      {/* Data-quality diagnostics */}
+      {showDiagnostics && mode === "admin" && (
+        <DiagnosticsPanel
+          report={sheetReport}
+          sheet={sheet}
+          format={prettyLabel}
+          gapFill={gapFill}
+          onGapFill={setGapFill}
+          shade={shadeIssues}
+          onShade={setShadeIssues}
+          onSelect={(channel, tData) => {
+            setSelectedChannel(channel);
+            setShowMainGraph(true);
+            handleGraphSeek(tData);
+          }}
+          onClose={() => setShowDiagnostics(false)}
+          style={{
+            position: "absolute",
+            right:
+              (graphDock === "right" ? 444 : 12) +
+              (showExport ? 292 : 0) +
+              (showReport ? 312 : 0) +
+              (showSync && model ? 292 : 0),
+            top: isCompact ? 86 : 90,
+            zIndex: 6,
+          }}
+        />
+      )}
+
+      {/* Parsed-data cache */}
+      {showCache && mode === "admin" && (
+        <CachePanel
+          onClose={() => setShowCache(false)}
+          style={{
+            position: "absolute",
+            right:
+              (graphDock === "right" ? 444 : 12) +
+              (showExport ? 292 : 0) +
+              (showReport ? 312 : 0) +
+              (showSync && model ? 292 : 0) +
+              (showDiagnostics && sheetReport ? 352 : 0),
+            top: isCompact ? 86 : 90,
+            zIndex: 6,
+          }}
+        />
+      )}
+
       {/* Bottom dock */}
       {panelMode === "docked" && graphDock === "bottom" && requestedGraphCount > 0 && (
         <div
+          data-graph-dock
           className="panel-wrap"
           style={{
             position: "absolute",
@@ -1139,7 +2702,42 @@ export default function ThreeView() {
             minWidth: 0,
           }}
         >
-          {activeGraphCount > 0 ? (
+          {compareActive ? (
+            compareLayout === "overlay" ? (
+              <SimpleGraph
+                series={compareSeries}
+                normalize={normalizeMode}
+                time={time}
+                jsonDuration={jsonDuration || 0}
+                fbxDuration={duration || 0}
+                dataTime={graphDataTime}
+                height={dockPx - (PANEL_PAD_TOP + PANEL_PAD_BOTTOM + EXTRA_CHROME) - 1}
+                title={`Compare · ${sheet ?? ""}`}
+                yLabel={normalizeMode === "zscore" ? "z-score" : normalizeMode === "minmax" ? "0–1" : "Value"}
+                onSeek={handleGraphSeek}
+                selection={graphSelection}
+                onSelectionChange={handleGraphSelection}
+                markers={graphMarkers}
+              />
+            ) : (
+              <div style={{ height: "100%", overflowY: "auto", minWidth: 0 }}>
+                <SmallMultiples
+                  series={compareSeries}
+                  regions={compareRegions}
+                  normalize={normalizeMode}
+                  time={time}
+                  jsonDuration={jsonDuration || 0}
+                  fbxDuration={duration || 0}
+                  dataTime={graphDataTime}
+                  height={dockPx - (PANEL_PAD_TOP + PANEL_PAD_BOTTOM + EXTRA_CHROME) - 1}
+                  markers={graphMarkers}
+                  onSeek={handleGraphSeek}
+                  selection={graphSelection}
+                  onSelectionChange={handleGraphSelection}
+                />
+              </div>
+            )
+          ) : activeGraphCount > 0 ? (
             <div
               style={{
                 height: "100%",
@@ -1153,36 +2751,48 @@ export default function ThreeView() {
             >
               {showMainGraph && series && selectedChannel && (
                 <SimpleGraph
-                  data={series}
+                  data={plotA}
+                  series={tracesA}
+                  regions={regionsA}
                   time={time}
                   jsonDuration={jsonDuration || 0}
                   fbxDuration={duration || 0}
+                  dataTime={graphDataTime}
                   height={
                     Math.floor(
                       (dockPx - (PANEL_PAD_TOP + PANEL_PAD_BOTTOM + EXTRA_CHROME) - ((requestedGraphCount - 1) * ROW_GAP)) /
                         (requestedGraphCount > 1 ? 2 : 1)
                     ) - 1
                   }
-                  title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannel)}`}
+                  title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannel)}${chainA.length ? " · " + pipelineLabel(chainA) : ""}`}
                   yLabel="Value"
                   onSeek={handleGraphSeek}
+                  selection={graphSelection}
+                  onSelectionChange={handleGraphSelection}
+                  markers={graphMarkers}
                 />
               )}
               {!studio && showSecond && seriesB && selectedChannelB && (
                 <SimpleGraph
-                  data={seriesB}
+                  data={plotB}
+                  series={tracesB}
+                  regions={regionsB}
                   time={time}
                   jsonDuration={jsonDuration || 0}
                   fbxDuration={duration || 0}
+                  dataTime={graphDataTime}
                   height={
                     Math.floor(
                       (dockPx - (PANEL_PAD_TOP + PANEL_PAD_BOTTOM + EXTRA_CHROME) - ((requestedGraphCount - 1) * ROW_GAP)) /
                         (requestedGraphCount > 1 ? 2 : 1)
                     ) - 1
                   }
-                  title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannelB)}`}
+                  title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannelB)}${chainB.length ? " · " + pipelineLabel(chainB) : ""}`}
                   yLabel="Value"
                   onSeek={handleGraphSeek}
+                  selection={graphSelection}
+                  onSelectionChange={handleGraphSelection}
+                  markers={graphMarkers}
                 />
               )}
             </div>
@@ -1193,6 +2803,7 @@ export default function ThreeView() {
       {/* Right dock */}
       {panelMode === "docked" && graphDock === "right" && requestedGraphCount > 0 && (
         <div
+          data-graph-dock
           className="panel-wrap"
           style={{
             position: "absolute",
@@ -1214,28 +2825,74 @@ export default function ThreeView() {
               overflowY: "auto",
             }}
           >
-            {showMainGraph && series && selectedChannel && (
+            {compareActive && compareLayout === "overlay" && (
+              <SimpleGraph
+                series={compareSeries}
+                normalize={normalizeMode}
+                time={time}
+                jsonDuration={jsonDuration || 0}
+                fbxDuration={duration || 0}
+                dataTime={graphDataTime}
+                height={isCompact ? 240 : 300}
+                title={`Compare · ${sheet ?? ""}`}
+                yLabel={normalizeMode === "zscore" ? "z-score" : normalizeMode === "minmax" ? "0–1" : "Value"}
+                onSeek={handleGraphSeek}
+                selection={graphSelection}
+                onSelectionChange={handleGraphSelection}
+                markers={graphMarkers}
+              />
+            )}
+            {compareActive && compareLayout === "grid" && (
+              <SmallMultiples
+                series={compareSeries}
+                regions={compareRegions}
+                columns={1}
+                normalize={normalizeMode}
+                time={time}
+                jsonDuration={jsonDuration || 0}
+                fbxDuration={duration || 0}
+                dataTime={graphDataTime}
+                height={compareSeries.length * (isCompact ? 130 : 150)}
+                markers={graphMarkers}
+                onSeek={handleGraphSeek}
+                selection={graphSelection}
+                onSelectionChange={handleGraphSelection}
+              />
+            )}
+            {!compareActive && showMainGraph && series && selectedChannel && (
               <SimpleGraph
-                data={series}
+                data={plotA}
+                series={tracesA}
+                regions={regionsA}
                 time={time}
                 jsonDuration={jsonDuration || 0}
                 fbxDuration={duration || 0}
+                dataTime={graphDataTime}
                 height={isCompact ? 160 : 180}
-                title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannel)}`}
+                title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannel)}${chainA.length ? " · " + pipelineLabel(chainA) : ""}`}
                 yLabel="Value"
                 onSeek={handleGraphSeek}
+                selection={graphSelection}
+                onSelectionChange={handleGraphSelection}
+                markers={graphMarkers}
               />
             )}
-            {!studio && showSecond && seriesB && selectedChannelB && (
+            {!compareActive && !studio && showSecond && seriesB && selectedChannelB && (
               <SimpleGraph
-                data={seriesB}
+                data={plotB}
+                series={tracesB}
+                regions={regionsB}
                 time={time}
                 jsonDuration={jsonDuration || 0}
                 fbxDuration={duration || 0}
+                dataTime={graphDataTime}
                 height={isCompact ? 160 : 180}
-                title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannelB)}`}
+                title={`Signal · ${sheet ? sheet + " · " : ""}${prettyLabel(selectedChannelB)}${chainB.length ? " · " + pipelineLabel(chainB) : ""}`}
                 yLabel="Value"
                 onSeek={handleGraphSeek}
+                selection={graphSelection}
+                onSelectionChange={handleGraphSelection}
+                markers={graphMarkers}
               />
             )}
           </div>
@@ -1243,162 +2900,7 @@ export default function ThreeView() {
       )}
 
       {/* Theme & polish */}
-      <style>{`
-        .toolbar, .panel-wrap, .select, .btn {
-          font-family: Inter, ui-sans-serif, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji", "Segoe UI Emoji";
-        }
-        :root {
-          --bg-0: #0b0e12;
-          --bg-1: #0e1116;
-          --panel: rgba(12,14,18,0.66);
-          --border: rgba(255,255,255,0.06);
-          --border-strong: rgba(255,255,255,0.12);
-          --text: #e6edf7;
-          --muted: #cfd6e2;
-          --accent: #e5812b;
-          --accent-deep: #cf6a14;
-          --glow: rgba(229,129,43,0.35);
-          --shadow: 0 12px 40px rgba(0,0,0,0.45);
-        }
-
-        .toolbar {
-          position: absolute;
-          left: 12px; right: 12px;
-          top: calc(12px + env(safe-area-inset-top, 0px));
-          display: flex; flex-wrap: wrap; align-items: center;
-          gap: 10px; row-gap: 10px; padding: 10px 12px;
-          border-radius: 14px;
-          background:
-            radial-gradient(900px 140px at 10% -60%, rgba(229,129,43,0.06), transparent 65%),
-            linear-gradient(180deg, rgba(18,22,28,0.76), rgba(11,14,18,0.60));
-          backdrop-filter: saturate(1.1) blur(10px);
-          border: 1px solid var(--border);
-          box-shadow: 0 10px 28px rgba(0,0,0,0.35), inset 0 1px rgba(255,255,255,0.04);
-          z-index: 10; pointer-events: auto; min-height: 58px;
-        }
-        .toolbar.studio { padding: 8px 10px; }
-
-        .brand { display: flex; align-items: center; gap: 10px; margin-right: 8px; }
-        .brand img {
-          width: var(--brand-img); height: var(--brand-img); object-fit: contain;
-          border-radius: 50%;
-          box-shadow: 0 0 0 1px rgba(255,255,255,0.12), 0 6px 18px rgba(0,0,0,0.35);
-        }
-        .brand .name {
-          font-weight: 800; letter-spacing: 0.06em; color: var(--text);
-          font-size: var(--brand-text); text-shadow: 0 1px 0 rgba(0,0,0,0.35);
-        }
-
-        .ctrl { display: flex; align-items: center; gap: 6px; }
-        .ctrl.grow { min-width: 320px; }
-        .label { font-size: 12px; color: var(--muted); opacity: 0.9; }
-        .small { font-size: 12px; color: var(--muted); opacity: 0.85; }
-
-        .select {
-          appearance: none;
-          background: linear-gradient(180deg, #121418, #0e1116);
-          color: var(--text);
-          border: 1px solid var(--border-strong);
-          border-radius: 10px;
-          padding: 6px 28px 6px 10px;
-          font-size: 12px;
-          outline: none;
-          height: 30px;
-          min-width: 160px;
-          box-shadow: inset 0 0 0 1px rgba(255,255,255,0.02);
-          transition: border-color .18s ease, box-shadow .18s ease;
-          background-image:
-            linear-gradient(180deg, transparent 0 50%, rgba(255,255,255,0.02) 50% 100%),
-            radial-gradient(circle at right 12px center, var(--accent) 0 2px, transparent 3px);
-          background-repeat: no-repeat;
-        }
-
-        .btn {
-          background: linear-gradient(180deg, #1a1f26, #12161b);
-          color: #d7dde6; border: 1px solid var(--border-strong); border-radius: 10px;
-          height: 30px; padding: 0 12px; font-size: 12px;
-          display: inline-flex; align-items: center; gap: 6px;
-          box-shadow: inset 0 0 0 1px rgba(255,255,255,0.02);
-          transition: filter .12s ease, box-shadow .12s ease;
-        }
-        .btn:hover { filter: brightness(1.05); }
-        .btn.primary {
-          background: linear-gradient(180deg, var(--accent), var(--accent-deep));
-          color: #0b0e12; border-color: rgba(255,180,120,0.9);
-          font-weight: 700; box-shadow: 0 6px 18px var(--glow);
-        }
-
-        /* Sliders — brand orange (WebKit + Firefox) */
-        .slider {
-          -webkit-appearance: none;
-          width: 180px; height: 6px; border-radius: 999px;
-          background: linear-gradient(90deg, rgba(229,129,43,0.32), rgba(207,106,20,0.22));
-          box-shadow: inset 0 1px 1px rgba(255,255,255,0.05), 0 0 0 1px var(--border);
-          outline: none;
-          accent-color: var(--accent);
-        }
-        .slider::-webkit-slider-runnable-track {
-          height: 6px; border-radius: 999px;
-          background: linear-gradient(90deg, rgba(229,129,43,0.32), rgba(207,106,20,0.22));
-        }
-        .slider::-webkit-slider-thumb {
-          -webkit-appearance: none;
-          width: 16px; height: 16px; border-radius: 50%;
-          background: linear-gradient(180deg, #ffa861, #e5812b);
-          border: 1px solid rgba(255,180,120,0.9);
-          box-shadow: 0 0 0 2px rgba(0,0,0,0.25), 0 6px 14px rgba(229,129,43,0.45);
-          margin-top: -5px;
-          cursor: pointer;
-        }
-        .slider:active::-webkit-slider-thumb { transform: scale(1.05); }
-
-        .slider::-moz-range-track {
-          height: 6px; border-radius: 999px;
-          background: linear-gradient(90deg, rgba(229,129,43,0.32), rgba(207,106,20,0.22));
-        }
-        .slider::-moz-range-progress {
-          height: 6px; border-radius: 999px;
-          background: linear-gradient(90deg, rgba(229,129,43,0.50), rgba(207,106,20,0.36));
-        }
-        .slider::-moz-range-thumb {
-          width: 16px; height: 16px; border-radius: 50%;
-          background: linear-gradient(180deg, #ffa861, #e5812b);
-          border: 1px solid rgba(255,180,120,0.9);
-          box-shadow: 0 0 0 2px rgba(0,0,0,0.25), 0 6px 14px rgba(229,129,43,0.45);
-          cursor: pointer;
-        }
-
-        .toggle { display:flex; align-items:center; gap:6px; color: var(--muted); font-size:12px; }
-        .toggle input { accent-color: var(--accent); }
-
-        .pill {
-          display:inline-flex; align-items:center;
-          height:30px; padding:0 10px; border-radius:10px;
-          background: linear-gradient(180deg, #121418, #0e1116);
-          color: var(--text); border:1px solid var(--border-strong);
-          font-size:12px;
-        }
-
-        .panel-wrap {
-          pointer-events: auto; border-radius: 14px;
-          background: linear-gradient(180deg, rgba(13,16,20,0.66), rgba(10,13,16,0.56));
-          border: 1px solid var(--border);
-          box-shadow: var(--shadow), inset 0 1px rgba(255,255,255,0.04);
-        }
-
-        @media (max-width: 900px), (max-height: 700px) {
-          .toolbar { gap: 8px; padding: 8px 10px; }
-          .brand .name { display: none; }
-          .ctrl.grow { min-width: 200px; }
-          .btn { height: 28px; font-size: 12px; padding: 0 10px; }
-          .select { height: 28px; font-size: 12px; min-width: 140px; }
-          .small { font-size: 11px; }
-        }
-
-        @media (prefers-reduced-motion: reduce) {
-          .btn, .select, .slider, .toolbar { transition: none !important; }
-        }
-      `}</style>
+      <style>{THEME_CSS}</style>
     </div>
   );
 }
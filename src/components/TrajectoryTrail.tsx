@@ -0,0 +1,104 @@
+// src/components/TrajectoryTrail.tsx
+import { useMemo } from "react";
+import { Line } from "@react-three/drei";
+import * as THREE from "three";
+import { frameAtTime, sampleTrack, trackSpeed } from "../utils/joints";
+import type { JointData } from "../utils/joints";
+
+/** Slow → fast colour stops for the speed ramp. */
+const SPEED_STOPS = ["#3b82f6", "#22d3ee", "#a3e635", "#facc15", "#e5812b", "#ef4444"].map(
+  (c) => new THREE.Color(c)
+);
+
+function rampColor(u: number, out: THREE.Color) {
+  const x = Math.min(1, Math.max(0, u)) * (SPEED_STOPS.length - 1);
+  const i = Math.min(SPEED_STOPS.length - 2, Math.floor(x));
+  return out.copy(SPEED_STOPS[i]).lerp(SPEED_STOPS[i + 1], x - i);
+}
+
+/** Robust top-of-range speed (98th percentile) so one glitch frame doesn't flatten the ramp. */
+function speedCeiling(speed: Float32Array) {
+  const vals = Array.from(speed).filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+  if (!vals.length) return 1;
+  return Math.max(1e-3, vals[Math.floor((vals.length - 1) * 0.98)]);
+}
+
+/**
+ * Fading polyline behind a tracked point (ball, wrist, centre of gravity…),
+ * coloured by instantaneous speed. Missing frames break the line.
+ */
+export default function TrajectoryTrail({
+  data,
+  trackKey,
+  time = 0, // data time (seconds)
+  length = 90, // trail length in frames
+  lineWidth = 3,
+}: {
+  data: JointData;
+  trackKey: string;
+  time?: number;
+  length?: number;
+  lineWidth?: number;
+}) {
+  const track = data.tracks[trackKey];
+  const speed = useMemo(() => (track ? trackSpeed(data, track) : null), [data, track]);
+  const ceiling = useMemo(() => (speed ? speedCeiling(speed) : 1), [speed]);
+
+  const frame = frameAtTime(data.times, time);
+
+  const geometry = useMemo(() => {
+    if (!track || !speed) return null;
+    const { xyz } = track;
+    const start = Math.max(0, frame - Math.max(1, Math.round(length)));
+    const span = Math.max(1, frame - start);
+    const points: Array<[number, number, number]> = [];
+    const colors: Array<[number, number, number, number]> = [];
+    const c = new THREE.Color();
+
+    for (let k = start; k < frame; k++) {
+      const a = k * 3;
+      const b = (k + 1) * 3;
+      if (!Number.isFinite(xyz[a]) || !Number.isFinite(xyz[b])) continue;
+      const s = Number.isFinite(speed[k]) ? speed[k] : 0;
+      rampColor(s / ceiling, c);
+      const fadeA = Math.pow((k - start) / span, 1.5);
+      const fadeB = Math.pow((k + 1 - start) / span, 1.5);
+      points.push([xyz[a], xyz[a + 1], xyz[a + 2]], [xyz[b], xyz[b + 1], xyz[b + 2]]);
+      colors.push([c.r, c.g, c.b, fadeA], [c.r, c.g, c.b, fadeB]);
+    }
+    return points.length ? { points, colors } : null;
+  }, [track, speed, ceiling, frame, length]);
+
+  const head = useMemo(() => {
+    if (!track) return null;
+    const p: [number, number, number] = [0, 0, 0];
+    return sampleTrack(data, track, time, p) ? p : null;
+  }, [data, track, time]);
+
+  const headColor = useMemo(() => {
+    const s = speed?.[frame];
+    return rampColor(Number.isFinite(s) ? (s as number) / ceiling : 0, new THREE.Color());
+  }, [speed, frame, ceiling]);
+
+  if (!track) return null;
+  return (
+    <group name={`Trail:${trackKey}`}>
+      {geometry && (
+        <Line
+          points={geometry.points}
+          vertexColors={geometry.colors}
+          segments
+          lineWidth={lineWidth}
+          transparent
+          depthWrite={false}
+        />
+      )}
+      {head && (
+        <mesh position={head} renderOrder={12}>
+          <sphereGeometry args={[0.03, 16, 12]} />
+          <meshBasicMaterial color={headColor} transparent opacity={0.95} depthWrite={false} />
+        </mesh>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,183 @@
+// src/components/theme.ts
+
+/** Shared look for the viewer and the roster page (toolbar, panels, controls, sliders, timeline). */
+export const THEME_CSS = `
+  .toolbar, .panel-wrap, .select, .btn {
+    font-family: Inter, ui-sans-serif, -apple-system, Segoe UI, Roboto, Helvetica, Arial, "Apple Color Emoji", "Segoe UI Emoji";
+  }
+  :root {
+    --bg-0: #0b0e12;
+    --bg-1: #0e1116;
+    --panel: rgba(12,14,18,0.66);
+    --border: rgba(255,255,255,0.06);
+    --border-strong: rgba(255,255,255,0.12);
+    --text: #e6edf7;
+    --muted: #cfd6e2;
+    --accent: #e5812b;
+    --accent-deep: #cf6a14;
+    --glow: rgba(229,129,43,0.35);
+    --shadow: 0 12px 40px rgba(0,0,0,0.45);
+  }
+
+  .toolbar {
+    position: absolute;
+    left: 12px; right: 12px;
+    top: calc(12px + env(safe-area-inset-top, 0px));
+    display: flex; flex-wrap: wrap; align-items: center;
+    gap: 10px; row-gap: 10px; padding: 10px 12px;
+    border-radius: 14px;
+    background:
+      radial-gradient(900px 140px at 10% -60%, rgba(229,129,43,0.06), transparent 65%),
+      linear-gradient(180deg, rgba(18,22,28,0.76), rgba(11,14,18,0.60));
+    backdrop-filter: saturate(1.1) blur(10px);
+    border: 1px solid var(--border);
+    box-shadow: 0 10px 28px rgba(0,0,0,0.35), inset 0 1px rgba(255,255,255,0.04);
+    z-index: 10; pointer-events: auto; min-height: 58px;
+  }
+  .toolbar.studio { padding: 8px 10px; }
+
+  .brand { display: flex; align-items: center; gap: 10px; margin-right: 8px; }
+  .brand img {
+    width: var(--brand-img); height: var(--brand-img); object-fit: contain;
+    border-radius: 50%;
+    box-shadow: 0 0 0 1px rgba(255,255,255,0.12), 0 6px 18px rgba(0,0,0,0.35);
+  }
+  .brand .name {
+    font-weight: 800; letter-spacing: 0.06em; color: var(--text);
+    font-size: var(--brand-text); text-shadow: 0 1px 0 rgba(0,0,0,0.35);
+  }
+
+  .ctrl { display: flex; align-items: center; gap: 6px; }
+  .ctrl.grow { min-width: 320px; }
+  .label { font-size: 12px; color: var(--muted); opacity: 0.9; }
+  .small { font-size: 12px; color: var(--muted); opacity: 0.85; }
+
+  .select {
+    appearance: none;
+    background: linear-gradient(180deg, #121418, #0e1116);
+    color: var(--text);
+    border: 1px solid var(--border-strong);
+    border-radius: 10px;
+    padding: 6px 28px 6px 10px;
+    font-size: 12px;
+    outline: none;
+    height: 30px;
+    min-width: 160px;
+    box-shadow: inset 0 0 0 1px rgba(255,255,255,0.02);
+    transition: border-color .18s ease, box-shadow .18s ease;
+    background-image:
+      linear-gradient(180deg, transparent 0 50%, rgba(255,255,255,0.02) 50% 100%),
+      radial-gradient(circle at right 12px center, var(--accent) 0 2px, transparent 3px);
+    background-repeat: no-repeat;
+  }
+
+  .btn {
+    background: linear-gradient(180deg, #1a1f26, #12161b);
+    color: #d7dde6; border: 1px solid var(--border-strong); border-radius: 10px;
+    height: 30px; padding: 0 12px; font-size: 12px;
+    display: inline-flex; align-items: center; gap: 6px;
+    box-shadow: inset 0 0 0 1px rgba(255,255,255,0.02);
+    transition: filter .12s ease, box-shadow .12s ease;
+  }
+  .btn:hover { filter: brightness(1.05); }
+  .btn.primary {
+    background: linear-gradient(180deg, var(--accent), var(--accent-deep));
+    color: #0b0e12; border-color: rgba(255,180,120,0.9);
+    font-weight: 700; box-shadow: 0 6px 18px var(--glow);
+  }
+
+  /* Sliders — brand orange (WebKit + Firefox) */
+  .slider {
+    -webkit-appearance: none;
+    width: 180px; height: 6px; border-radius: 999px;
+    background: linear-gradient(90deg, rgba(229,129,43,0.32), rgba(207,106,20,0.22));
+    box-shadow: inset 0 1px 1px rgba(255,255,255,0.05), 0 0 0 1px var(--border);
+    outline: none;
+    accent-color: var(--accent);
+  }
+  .slider::-webkit-slider-runnable-track {
+    height: 6px; border-radius: 999px;
+    background: linear-gradient(90deg, rgba(229,129,43,0.32), rgba(207,106,20,0.22));
+  }
+  .slider::-webkit-slider-thumb {
+    -webkit-appearance: none;
+    width: 16px; height: 16px; border-radius: 50%;
+    background: linear-gradient(180deg, #ffa861, #e5812b);
+    border: 1px solid rgba(255,180,120,0.9);
+    box-shadow: 0 0 0 2px rgba(0,0,0,0.25), 0 6px 14px rgba(229,129,43,0.45);
+    margin-top: -5px;
+    cursor: pointer;
+  }
+  .slider:active::-webkit-slider-thumb { transform: scale(1.05); }
+
+  .slider::-moz-range-track {
+    height: 6px; border-radius: 999px;
+    background: linear-gradient(90deg, rgba(229,129,43,0.32), rgba(207,106,20,0.22));
+  }
+  .slider::-moz-range-progress {
+    height: 6px; border-radius: 999px;
+    background: linear-gradient(90deg, rgba(229,129,43,0.50), rgba(207,106,20,0.36));
+  }
+  .slider::-moz-range-thumb {
+    width: 16px; height: 16px; border-radius: 50%;
+    background: linear-gradient(180deg, #ffa861, #e5812b);
+    border: 1px solid rgba(255,180,120,0.9);
+    box-shadow: 0 0 0 2px rgba(0,0,0,0.25), 0 6px 14px rgba(229,129,43,0.45);
+    cursor: pointer;
+  }
+
+  .timeline { position: relative; display: flex; align-items: center; }
+  .timeline-mark {
+    position: absolute; top: -9px; width: 3px; height: 24px; padding: 0;
+    transform: translateX(-1.5px); border: none; border-radius: 2px;
+    cursor: pointer; opacity: 0.9; pointer-events: auto;
+  }
+  .timeline-mark span {
+    position: absolute; top: -12px; left: 50%; transform: translateX(-50%);
+    font-size: 9px; font-weight: 700; color: var(--muted); pointer-events: none;
+  }
+  .timeline-mark:hover { opacity: 1; filter: brightness(1.2); }
+  .timeline-region {
+    position: absolute; top: 50%; height: 10px; transform: translateY(-50%);
+    border-radius: 4px; pointer-events: none;
+    background: rgba(255,255,255,0.16); border: 1px solid rgba(255,255,255,0.38);
+  }
+  .timeline-handle {
+    position: absolute; bottom: -10px; width: 10px; height: 9px;
+    transform: translateX(-5px); cursor: ew-resize; touch-action: none;
+    background: #e6edf7; opacity: 0.85;
+    clip-path: polygon(50% 0, 100% 100%, 0 100%);
+  }
+  .timeline-handle:hover { opacity: 1; }
+
+  .toggle { display:flex; align-items:center; gap:6px; color: var(--muted); font-size:12px; }
+  .toggle input { accent-color: var(--accent); }
+
+  .pill {
+    display:inline-flex; align-items:center;
+    height:30px; padding:0 10px; border-radius:10px;
+    background: linear-gradient(180deg, #121418, #0e1116);
+    color: var(--text); border:1px solid var(--border-strong);
+    font-size:12px;
+  }
+
+  .panel-wrap {
+    pointer-events: auto; border-radius: 14px;
+    background: linear-gradient(180deg, rgba(13,16,20,0.66), rgba(10,13,16,0.56));
+    border: 1px solid var(--border);
+    box-shadow: var(--shadow), inset 0 1px rgba(255,255,255,0.04);
+  }
+
+  @media (max-width: 900px), (max-height: 700px) {
+    .toolbar { gap: 8px; padding: 8px 10px; }
+    .brand .name { display: none; }
+    .ctrl.grow { min-width: 200px; }
+    .btn { height: 28px; font-size: 12px; padding: 0 10px; }
+    .select { height: 28px; font-size: 12px; min-width: 140px; }
+    .small { font-size: 11px; }
+  }
+
+  @media (prefers-reduced-motion: reduce) {
+    .btn, .select, .slider, .toolbar { transition: none !important; }
+  }
+`;
@@ -1,7 +1,7 @@
 // src/main.tsx
 import React from "react";
 import { createRoot } from "react-dom/client";
-import ThreeView from "./components/ThreeView";
+import App from "./App";
 
 const root = createRoot(document.getElementById("root")!);
-root.render(<ThreeView />);
+root.render(<App />);
@@ -0,0 +1,22 @@
+// src/shared/captureName.d.ts
+
+/** Fields encoded in a capture export's file name */
+export type CaptureInfo = {
+  /** Name prefix before the timestamp ("Pete") */
+  subject: string | null;
+  /** Local capture time, "YYYY-MM-DDThh:mm:ss[.cc]" */
+  captured: string;
+  take: number;
+  /** Sub-index within the take (1 = first attempt) */
+  attempt: number;
+  /** "030_1", as used for take ids in manifests */
+  takeId: string;
+  /** Pitcher or machine faced */
+  opponent: string | null;
+  hand: "R" | "L" | "S" | null;
+  /** Export product ("Bat", …) */
+  product: string | null;
+};
+
+export function parseCaptureName(fileName: string): CaptureInfo | null;
+export function captureLabel(capture: CaptureInfo): string;
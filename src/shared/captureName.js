@@ -0,0 +1,59 @@
+// src/shared/captureName.js
+// Plain JS so scripts/gen-manifests.mjs (Node, no build step) and the app can
+// share it; types live in captureName.d.ts.
+
+// <subject><YYYYMMDDhhmmss><cc>_<take>_<attempt>_<opponent> (<hand>)_<product>.out.<ext>
+// e.g. Pete2025080912464721_030_1_Pitcher One (Right)_Bat.out.xlsx
+const CAPTURE_RE =
+  /^(?<subject>.*?)(?<stamp>\d{14})(?<cs>\d{2})?_(?<take>\d{2,4})_(?<attempt>\d+)_(?<rest>.*?)(?:\.out)?\.[a-z0-9]+$/i;
+
+const HANDS = { r: "R", right: "R", rhp: "R", l: "L", left: "L", lhp: "L", s: "S", switch: "S" };
+
+/**
+ * Capture details encoded in an export file name, or null when the name
+ * doesn't follow the export pattern. Folders in the path are ignored.
+ */
+export function parseCaptureName(fileName) {
+  const base = String(fileName).split(/[?#]/)[0].split(/[\\/]/).pop() ?? "";
+  let name = base;
+  try {
+    name = decodeURIComponent(base);
+  } catch {
+    /* keep as is */
+  }
+  const m = CAPTURE_RE.exec(name);
+  if (!m?.groups) return null;
+  const g = m.groups;
+
+  const s = g.stamp;
+  const date = `${s.slice(0, 4)}-${s.slice(4, 6)}-${s.slice(6, 8)}`;
+  const time = `${s.slice(8, 10)}:${s.slice(10, 12)}:${s.slice(12, 14)}${g.cs ? `.${g.cs}` : ""}`;
+  if (Number.isNaN(Date.parse(`${date}T${time}`))) return null;
+
+  // "<opponent> (<hand>)_<product>"; both parts optional
+  const parts = g.rest.split("_").filter(Boolean);
+  const product = parts.length > 1 ? parts.pop() : null;
+  const who = parts.join("_").trim();
+  const hm = /^(.*?)\s*\(([^)]+)\)\s*$/.exec(who);
+  const opponent = (hm ? hm[1] : who).trim() || null;
+  const hand = hm ? HANDS[hm[2].trim().toLowerCase()] ?? null : null;
+
+  return {
+    subject: g.subject || null,
+    captured: `${date}T${time}`,
+    take: Number(g.take),
+    attempt: Number(g.attempt),
+    takeId: `${g.take}_${g.attempt}`,
+    opponent,
+    hand,
+    product,
+  };
+}
+
+/** "Take 30 · vs Pitcher One (R) · 12:46"; a repeat attempt shows as "Take 30 (2)". */
+export function captureLabel(capture) {
+  const take = `Take ${capture.take}${capture.attempt > 1 ? ` (${capture.attempt})` : ""}`;
+  const vs = capture.opponent ? `vs ${capture.opponent}${capture.hand ? ` (${capture.hand})` : ""}` : null;
+  const time = capture.captured.slice(11, 16);
+  return [take, vs, time].filter(Boolean).join(" · ");
+}
@@ -0,0 +1,180 @@
+// src/utils/biomechanics.ts
+import { DERIVED_PREFIX, SHEET_COMPUTED_ANGLES, column, unwrapDegrees } from "./kinematics";
+import { findJointSheet, listTripletKeys } from "./joints";
+import { makeSheet } from "./sessionData";
+import type { SessionData, SheetData } from "./sessionData";
+
+/*
+ * Standard swing angles computed from joint-center positions, for exports
+ * that don't include a "Local Joint Angles" sheet. Works in capture space
+ * (Z-up); all angles are in degrees.
+ *   flexion   : 180° minus the included angle at the joint (straight = 0°)
+ *   trunk tilt: pelvis → upper spine away from vertical, also split into
+ *               forward / lateral components in the pelvis frame
+ *   rotation  : heading of the left → right hip / shoulder line about vertical
+ *   X-factor  : shoulder rotation minus pelvis rotation
+ */
+
+type Vec = Float64Array; // interleaved xyz, NaN where missing
+
+/** Channel keys on the computed sheet */
+export const COMPUTED_ANGLES = {
+  elbowRight: "/Angle/Elbow Flexion/Right",
+  elbowLeft: "/Angle/Elbow Flexion/Left",
+  kneeRight: "/Angle/Knee Flexion/Right",
+  kneeLeft: "/Angle/Knee Flexion/Left",
+  trunkTilt: "/Angle/Trunk/Tilt",
+  trunkForward: "/Angle/Trunk/Forward Tilt",
+  trunkLateral: "/Angle/Trunk/Lateral Tilt",
+  pelvisRotation: "/Angle/Pelvis/Rotation",
+  shoulderRotation: "/Angle/Shoulders/Rotation",
+  xFactor: "/Angle/Hip-Shoulder/Separation (X-Factor)",
+} as const;
+
+const DEG = 180 / Math.PI;
+
+/** First of `candidates` present as a triplet, as interleaved xyz. */
+function point(sheet: SheetData, keys: Set<string>, ...candidates: string[]): Vec | null {
+  const key = candidates.find((k) => keys.has(k));
+  if (!key) return null;
+  const [x, y, z] = ["X", "Y", "Z"].map((a) => column(sheet, `${key}_${a}`));
+  const out = new Float64Array(sheet.t.length * 3);
+  for (let i = 0; i < sheet.t.length; i++) {
+    out[i * 3] = x[i];
+    out[i * 3 + 1] = y[i];
+    out[i * 3 + 2] = z[i];
+  }
+  return out;
+}
+
+/** 180° minus the angle at `b` between b→a and b→c. */
+function flexion(a: Vec, b: Vec, c: Vec, n: number): Float64Array {
+  const out = new Float64Array(n).fill(NaN);
+  for (let i = 0; i < n; i++) {
+    const j = i * 3;
+    const ux = a[j] - b[j], uy = a[j + 1] - b[j + 1], uz = a[j + 2] - b[j + 2];
+    const vx = c[j] - b[j], vy = c[j + 1] - b[j + 1], vz = c[j + 2] - b[j + 2];
+    const len = Math.hypot(ux, uy, uz) * Math.hypot(vx, vy, vz);
+    if (!(len > 0)) continue;
+    const cos = Math.min(1, Math.max(-1, (ux * vx + uy * vy + uz * vz) / len));
+    out[i] = 180 - Math.acos(cos) * DEG;
+  }
+  return out;
+}
+
+/** Heading (about vertical) of the horizontal left → right line, unwrapped. */
+function heading(left: Vec, right: Vec, n: number): Float64Array {
+  const out = new Float64Array(n).fill(NaN);
+  for (let i = 0; i < n; i++) {
+    const j = i * 3;
+    const dx = right[j] - left[j];
+    const dy = right[j + 1] - left[j + 1];
+    if (dx || dy) out[i] = Math.atan2(dy, dx) * DEG;
+  }
+  return unwrapDegrees(out);
+}
+
+/**
+ * Trunk tilt from vertical, plus forward / lateral components measured in the
+ * pelvis frame (right = hip line, forward = up × right) when the hips exist.
+ */
+function trunkTilt(
+  base: Vec,
+  top: Vec,
+  hipL: Vec | null,
+  hipR: Vec | null,
+  n: number
+): { tilt: Float64Array; forward: Float64Array | null; lateral: Float64Array | null } {
+  const tilt = new Float64Array(n).fill(NaN);
+  const forward = hipL && hipR ? new Float64Array(n).fill(NaN) : null;
+  const lateral = hipL && hipR ? new Float64Array(n).fill(NaN) : null;
+  for (let i = 0; i < n; i++) {
+    const j = i * 3;
+    const tx = top[j] - base[j], ty = top[j + 1] - base[j + 1], tz = top[j + 2] - base[j + 2];
+    const len = Math.hypot(tx, ty, tz);
+    if (!(len > 0)) continue;
+    tilt[i] = Math.acos(Math.min(1, Math.max(-1, tz / len))) * DEG;
+    if (!hipL || !hipR || !forward || !lateral) continue;
+
+    let rx = hipR[j] - hipL[j];
+    let ry = hipR[j + 1] - hipL[j + 1];
+    const rl = Math.hypot(rx, ry);
+    if (!(rl > 0)) continue;
+    rx /= rl;
+    ry /= rl;
+    // forward = up × right = (-ry, rx, 0)
+    forward[i] = Math.atan2(-ry * tx + rx * ty, tz) * DEG;
+    lateral[i] = Math.atan2(rx * tx + ry * ty, tz) * DEG;
+  }
+  return { tilt, forward, lateral };
+}
+
+/** Wrap to (-180°, 180°]. */
+function wrap180(values: Float64Array): Float64Array {
+  return values.map((v) => (Number.isFinite(v) ? v - 360 * Math.ceil((v - 180) / 360) : NaN));
+}
+
+/**
+ * A "Computed Angles" sheet from a joint-center sheet. Angles whose joints
+ * aren't tracked are left out; returns null when none can be computed.
+ */
+export function computeJointAngles(sheet: SheetData): SheetData | null {
+  const n = sheet.t.length;
+  if (n < 2) return null;
+  const keys = new Set(listTripletKeys(sheet));
+  const p = (...candidates: string[]) => point(sheet, keys, ...candidates);
+
+  const pelvis = p("/Joint/Pelvis", "/Joint/Spine/Low");
+  const spineTop = p("/Joint/Spine/High", "/Joint/Neck", "/Joint/Torso");
+  const hipL = p("/Joint/Hip/Left");
+  const hipR = p("/Joint/Hip/Right");
+  const shL = p("/Joint/Shoulder/Left", "/Joint/Clavicular/Left");
+  const shR = p("/Joint/Shoulder/Right", "/Joint/Clavicular/Right");
+
+  const channels: Record<string, Float64Array> = {};
+  for (const side of ["Right", "Left"] as const) {
+    const shoulder = p(`/Joint/Shoulder/${side}`);
+    const elbow = p(`/Joint/Elbow/${side}`);
+    const wrist = p(`/Joint/Wrist/${side}`);
+    if (shoulder && elbow && wrist) {
+      channels[side === "Right" ? COMPUTED_ANGLES.elbowRight : COMPUTED_ANGLES.elbowLeft] = flexion(shoulder, elbow, wrist, n);
+    }
+
+    const hip = side === "Right" ? hipR : hipL;
+    const knee = p(`/Joint/Knee/${side}`);
+    const ankle = p(`/Joint/Ankle/${side}`);
+    if (hip && knee && ankle) {
+      channels[side === "Right" ? COMPUTED_ANGLES.kneeRight : COMPUTED_ANGLES.kneeLeft] = flexion(hip, knee, ankle, n);
+    }
+  }
+
+  if (pelvis && spineTop) {
+    const { tilt, forward, lateral } = trunkTilt(pelvis, spineTop, hipL, hipR, n);
+    channels[COMPUTED_ANGLES.trunkTilt] = tilt;
+    if (forward) channels[COMPUTED_ANGLES.trunkForward] = forward;
+    if (lateral) channels[COMPUTED_ANGLES.trunkLateral] = lateral;
+  }
+
+  const pelvisRot = hipL && hipR ? heading(hipL, hipR, n) : null;
+  const shoulderRot = shL && shR ? heading(shL, shR, n) : null;
+  if (pelvisRot) channels[COMPUTED_ANGLES.pelvisRotation] = pelvisRot;
+  if (shoulderRot) channels[COMPUTED_ANGLES.shoulderRotation] = shoulderRot;
+  if (pelvisRot && shoulderRot) {
+    channels[COMPUTED_ANGLES.xFactor] = wrap180(shoulderRot.map((v, i) => v - pelvisRot[i]));
+  }
+
+  const out = makeSheet(sheet.t, channels);
+  return out.keys.length ? out : null;
+}
+
+/**
+ * The virtual "Computed Angles" sheet for workbooks that have joint centers
+ * but no joint-angle sheet of their own; {} otherwise.
+ */
+export function deriveAngleSheets(sets: SessionData): SessionData {
+  const hasAngles = Object.keys(sets).some((n) => !n.startsWith(DERIVED_PREFIX) && /joint.*angle/i.test(n));
+  const jointSheet = findJointSheet(sets);
+  if (hasAngles || !jointSheet) return {};
+  const sheet = computeJointAngles(sets[jointSheet]);
+  return sheet ? { [SHEET_COMPUTED_ANGLES]: sheet } : {};
+}
@@ -0,0 +1,220 @@
+// src/utils/bvh.ts
+import { jointKeyForName } from "./joints";
+import { makeSheet } from "./sessionData";
+import type { SessionData } from "./sessionData";
+
+/*
+ * BVH (Biovision hierarchy) → SessionData.
+ *   "BVH Joint Angles"    : `<joint>/Xrotation|Yrotation|Zrotation` in degrees
+ *   "BVH Joint Positions" : forward-kinematics joint centres as `<joint>_X|Y|Z`,
+ *                           metres, converted to our Z-up capture frame
+ * Joints with a recognizable name (Mixamo / CMU / Blender conventions) are
+ * keyed like our exports (`/Joint/Knee/Left`, …) so the skeleton overlay,
+ * sequence and events work unchanged; the rest land under `/BVH/<name>`.
+ */
+
+export type BvhJoint = {
+  name: string;
+  key: string;                       // column prefix used in the sheets
+  parent: number;                    // index into joints, -1 for the root
+  offset: [number, number, number];  // rest offset from the parent, file units
+  channels: string[];                // e.g. ["Xposition", …, "Zrotation"]
+  channelStart: number;              // first column of this joint in a motion line
+};
+
+export type BvhClip = {
+  joints: BvhJoint[];
+  frameTime: number;   // seconds
+  frames: Float32Array[];
+};
+
+/* -------------------- parsing -------------------- */
+
+/** Assign sheet keys: first match wins, except the upper spine, where the deepest joint wins. */
+function assignKeys(joints: BvhJoint[]) {
+  const taken = new Map<string, number>();
+  joints.forEach((j, i) => {
+    const key = jointKeyForName(j.name);
+    if (!key) return;
+    const prev = taken.get(key);
+    if (prev != null && key !== "/Joint/Spine/High") return;
+    if (prev != null) joints[prev].key = `/BVH/${joints[prev].name}`;
+    taken.set(key, i);
+    j.key = key;
+  });
+  if (!taken.has("/Joint/Pelvis") && joints[0] && joints[0].key.startsWith("/BVH/")) {
+    joints[0].key = "/Joint/Pelvis";
+  }
+}
+
+/** Parse BVH text into its hierarchy and motion frames. */
+export function parseBvh(text: string): BvhClip {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  let p = 0;
+  const next = () => {
+    if (p >= tokens.length) throw new Error("Unexpected end of BVH file.");
+    return tokens[p++];
+  };
+  const expect = (word: string) => {
+    const t = next();
+    if (t.toUpperCase() !== word) throw new Error(`BVH: expected ${word}, found "${t}".`);
+  };
+
+  expect("HIERARCHY");
+  const joints: BvhJoint[] = [];
+  let channelCount = 0;
+
+  const readJoint = (name: string, parent: number) => {
+    const index = joints.length;
+    const joint: BvhJoint = { name, key: `/BVH/${name}`, parent, offset: [0, 0, 0], channels: [], channelStart: channelCount };
+    joints.push(joint);
+    expect("{");
+    for (;;) {
+      const t = next();
+      const T = t.toUpperCase();
+      if (T === "}") break;
+      if (T === "OFFSET") {
+        joint.offset = [Number(next()), Number(next()), Number(next())];
+      } else if (T === "CHANNELS") {
+        const n = Number(next());
+        for (let i = 0; i < n; i++) joint.channels.push(next());
+        joint.channelStart = channelCount;
+        channelCount += n;
+      } else if (T === "JOINT") {
+        readJoint(next(), index);
+      } else if (T === "END") {
+        next(); // "Site"
+        expect("{");
+        while (next() !== "}");
+      } else {
+        throw new Error(`BVH: unexpected token "${t}" in joint ${name}.`);
+      }
+    }
+  };
+
+  expect("ROOT");
+  readJoint(next(), -1);
+  while (p < tokens.length && tokens[p].toUpperCase() === "ROOT") {
+    p++;
+    readJoint(next(), -1);
+  }
+
+  expect("MOTION");
+  expect("FRAMES:");
+  const frameCount = Number(next());
+  expect("FRAME");
+  expect("TIME:");
+  const frameTime = Number(next());
+  if (!Number.isFinite(frameCount) || !(frameTime > 0)) throw new Error("BVH: bad Frames / Frame Time header.");
+
+  const frames: Float32Array[] = [];
+  for (let f = 0; f < frameCount && p + channelCount <= tokens.length; f++) {
+    const values = new Float32Array(channelCount);
+    for (let c = 0; c < channelCount; c++) values[c] = Number(tokens[p++]);
+    frames.push(values);
+  }
+
+  assignKeys(joints);
+  return { joints, frameTime, frames };
+}
+
+/* -------------------- forward kinematics -------------------- */
+
+type Mat3 = number[]; // row-major 3×3
+
+const IDENTITY: Mat3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+function mul(a: Mat3, b: Mat3): Mat3 {
+  const o = new Array<number>(9);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      o[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c];
+    }
+  }
+  return o;
+}
+
+function axisRotation(axis: string, deg: number): Mat3 {
+  const a = (deg * Math.PI) / 180;
+  const c = Math.cos(a);
+  const s = Math.sin(a);
+  if (axis === "X") return [1, 0, 0, 0, c, -s, 0, s, c];
+  if (axis === "Y") return [c, 0, s, 0, 1, 0, -s, 0, c];
+  return [c, -s, 0, s, c, 0, 0, 0, 1];
+}
+
+/** World positions (file units, BVH Y-up) of every joint for one frame. */
+function solveFrame(clip: BvhClip, values: Float32Array): Array<[number, number, number]> {
+  const world: Array<{ R: Mat3; p: [number, number, number] }> = [];
+  return clip.joints.map((j, i) => {
+    const local = [...j.offset] as [number, number, number];
+    let R: Mat3 = IDENTITY;
+    j.channels.forEach((ch, k) => {
+      const v = values[j.channelStart + k];
+      const axis = ch[0].toUpperCase();
+      if (/position$/i.test(ch)) local["XYZ".indexOf(axis)] += v;
+      else if (/rotation$/i.test(ch)) R = mul(R, axisRotation(axis, v));
+    });
+
+    const parent = j.parent >= 0 ? world[j.parent] : { R: IDENTITY, p: [0, 0, 0] as [number, number, number] };
+    const pr = parent.R;
+    const p: [number, number, number] = [
+      parent.p[0] + pr[0] * local[0] + pr[1] * local[1] + pr[2] * local[2],
+      parent.p[1] + pr[3] * local[0] + pr[4] * local[1] + pr[5] * local[2],
+      parent.p[2] + pr[6] * local[0] + pr[7] * local[1] + pr[8] * local[2],
+    ];
+    world[i] = { R: mul(pr, R), p };
+    return p;
+  });
+}
+
+/** Guess metres-per-unit from a skeleton's standing height (mm, cm/inches or metres). */
+export function bvhUnitScale(height: number): number {
+  if (height > 400) return 0.001;
+  if (height > 20) return 0.01;
+  return 1;
+}
+
+function unitScale(first: Array<[number, number, number]>): number {
+  let lo = Infinity, hi = -Infinity;
+  for (const p of first) {
+    lo = Math.min(lo, p[1]);
+    hi = Math.max(hi, p[1]);
+  }
+  return bvhUnitScale(hi - lo);
+}
+
+/** Sheets for a parsed clip: joint angles and FK joint-centre positions. */
+export function bvhToDataSets(clip: BvhClip): SessionData {
+  const n = clip.frames.length;
+  if (!n) return {};
+
+  const scale = unitScale(solveFrame(clip, clip.frames[0]));
+  const t = Float64Array.from(clip.frames, (_, f) => f * clip.frameTime);
+  const angles: Record<string, Float32Array> = {};
+  const positions: Record<string, Float32Array> = {};
+  const column = (cols: Record<string, Float32Array>, key: string) => (cols[key] ??= new Float32Array(n).fill(NaN));
+
+  clip.frames.forEach((values, f) => {
+    for (const j of clip.joints) {
+      j.channels.forEach((ch, k) => {
+        if (/rotation$/i.test(ch)) column(angles, `${j.key}/${ch}`)[f] = values[j.channelStart + k];
+      });
+    }
+
+    solveFrame(clip, values).forEach(([x, y, z], i) => {
+      const key = clip.joints[i].key;
+      // BVH is Y-up; our captures are Z-up (scene maps x,y,z → x,z,−y)
+      column(positions, `${key}_X`)[f] = x * scale;
+      column(positions, `${key}_Y`)[f] = -z * scale;
+      column(positions, `${key}_Z`)[f] = y * scale;
+    });
+  });
+
+  return { "BVH Joint Angles": makeSheet(t, angles), "BVH Joint Positions": makeSheet(t, positions) };
+}
+
+/** Parse BVH text straight to sheets. */
+export function parseBvhToDataSets(text: string): SessionData {
+  return bvhToDataSets(parseBvh(text));
+}
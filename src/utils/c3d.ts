@@ -0,0 +1,226 @@
+// src/utils/c3d.ts
+import { makeSheet } from "./sessionData";
+import type { SessionData } from "./sessionData";
+
+/*
+ * C3D (motion-lab marker files) → SessionData.
+ *   "C3D Points"  : `<label>_X|Y|Z` in metres (lab Z-up, same as our exports)
+ *   "C3D Analogs" : one column per analog channel, scaled, at the analog rate
+ * Handles Intel, DEC and MIPS processor types and both integer and float data.
+ */
+
+type Param = { type: number; dims: number[]; offset: number };
+
+const BLOCK = 512;
+const PROC_INTEL = 84;
+const PROC_DEC = 85;
+const PROC_MIPS = 86;
+
+function makeReader(view: DataView, processor: number) {
+  const little = processor !== PROC_MIPS;
+  const dec = processor === PROC_DEC;
+  const scratch = new DataView(new ArrayBuffer(4));
+  return {
+    i8: (o: number) => view.getInt8(o),
+    u8: (o: number) => view.getUint8(o),
+    i16: (o: number) => view.getInt16(o, little),
+    u16: (o: number) => view.getUint16(o, little),
+    f32: (o: number) => {
+      if (!dec) return view.getFloat32(o, little);
+      // DEC F-float: swap the 16-bit words, then fix the exponent bias
+      scratch.setUint8(0, view.getUint8(o + 2));
+      scratch.setUint8(1, view.getUint8(o + 3));
+      scratch.setUint8(2, view.getUint8(o));
+      scratch.setUint8(3, view.getUint8(o + 1));
+      return scratch.getFloat32(0, true) / 4;
+    },
+  };
+}
+
+type Reader = ReturnType<typeof makeReader>;
+
+function ascii(view: DataView, offset: number, length: number): string {
+  let s = "";
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) s += String.fromCharCode(view.getUint8(offset + i));
+  return s;
+}
+
+/** Read the parameter section into a "GROUP:NAME" → descriptor map. */
+function readParameters(view: DataView, r: Reader, start: number, blocks: number): Map<string, Param> {
+  const groups = new Map<number, string>();
+  const pending: Array<{ group: number; name: string; param: Param }> = [];
+  const end = Math.min(view.byteLength, start + blocks * BLOCK);
+
+  let p = start + 4;
+  while (p + 2 < end) {
+    const nameLen = Math.abs(r.i8(p));
+    const id = r.i8(p + 1);
+    if (nameLen === 0 || id === 0) break;
+    const name = ascii(view, p + 2, nameLen).toUpperCase();
+    const nextPos = p + 2 + nameLen;
+    const next = r.i16(nextPos);
+    const q = nextPos + 2;
+
+    if (id < 0) {
+      groups.set(-id, name);
+    } else {
+      const type = r.i8(q);
+      const nDims = r.u8(q + 1);
+      const dims: number[] = [];
+      for (let i = 0; i < nDims; i++) dims.push(r.u8(q + 2 + i));
+      pending.push({ group: id, name, param: { type, dims, offset: q + 2 + nDims } });
+    }
+
+    if (next <= 0) break;
+    p = nextPos + next;
+  }
+
+  // Parameters may precede their group record, so resolve names last
+  const params = new Map<string, Param>();
+  for (const { group, name, param } of pending) {
+    const g = groups.get(group);
+    if (g) params.set(`${g}:${name}`, param);
+  }
+  return params;
+}
+
+function paramNumbers(params: Map<string, Param>, key: string, r: Reader): number[] | null {
+  const p = params.get(key);
+  if (!p || p.type === -1) return null;
+  const n = p.dims.reduce((a, b) => a * b, 1);
+  const size = Math.abs(p.type);
+  const out: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const o = p.offset + i * size;
+    out.push(p.type === 1 ? r.u8(o) : p.type === 2 ? r.i16(o) : r.f32(o));
+  }
+  return out;
+}
+
+function paramStrings(params: Map<string, Param>, key: string, view: DataView): string[] | null {
+  const p = params.get(key);
+  if (!p || p.type !== -1) return null;
+  if (p.dims.length <= 1) return [ascii(view, p.offset, p.dims[0] ?? 0).trim()];
+  const width = p.dims[0];
+  const count = p.dims.slice(1).reduce((a, b) => a * b, 1);
+  const out: string[] = [];
+  for (let i = 0; i < count; i++) out.push(ascii(view, p.offset + i * width, width).trim());
+  return out;
+}
+
+function uniqueLabels(raw: Array<string | undefined>, count: number, fallback: string): string[] {
+  const seen = new Map<string, number>();
+  const out: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const base = raw[i]?.trim() || `${fallback}${i + 1}`;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    out.push(n === 1 ? base : `${base} (${n})`);
+  }
+  return out;
+}
+
+function unitsToMetres(units: string | undefined): number {
+  const u = (units ?? "mm").trim().toLowerCase();
+  if (u === "m") return 1;
+  if (u === "cm") return 0.01;
+  return 0.001; // mm is the C3D default
+}
+
+/** Parse a C3D file into point and analog sheets. */
+export function parseC3D(buf: ArrayBuffer): SessionData {
+  const view = new DataView(buf);
+  if (view.byteLength < BLOCK || view.getUint8(1) !== 0x50) {
+    throw new Error("Not a C3D file (missing header key).");
+  }
+
+  const paramStart = (view.getUint8(0) - 1) * BLOCK;
+  if (paramStart < BLOCK || paramStart + 4 > view.byteLength) throw new Error("C3D parameter section is out of range.");
+  const processor = view.getUint8(paramStart + 3);
+  const r = makeReader(view, [PROC_INTEL, PROC_DEC, PROC_MIPS].includes(processor) ? processor : PROC_INTEL);
+  const params = readParameters(view, r, paramStart, view.getUint8(paramStart + 2));
+
+  // Header words (1-based in the spec)
+  const nPoints = r.u16(2);
+  const analogPerFrame = r.u16(4);
+  const firstFrame = r.u16(6);
+  const lastFrame = r.u16(8);
+  const scale = r.f32(12);
+  const dataStartBlock = r.u16(16) || (paramNumbers(params, "POINT:DATA_START", r)?.[0] ?? 0) & 0xffff;
+  const samplesPerFrame = r.u16(18) || 1;
+  const pointRate = r.f32(20) || paramNumbers(params, "POINT:RATE", r)?.[0] || 0;
+  if (!dataStartBlock || !(pointRate > 0)) throw new Error("C3D header has no data start or frame rate.");
+
+  const isFloat = scale < 0;
+  const pointScale = Math.abs(scale) || 1;
+  const word = isFloat ? 4 : 2;
+  const frameBytes = (nPoints * 4 + analogPerFrame) * word;
+  const dataOffset = (dataStartBlock - 1) * BLOCK;
+  const available = frameBytes > 0 ? Math.floor((view.byteLength - dataOffset) / frameBytes) : 0;
+  const headerFrames = lastFrame >= firstFrame ? lastFrame - firstFrame + 1 : 0;
+  // Long captures overflow the 16-bit frame words; trust the file size then
+  const nFrames = headerFrames > 0 && headerFrames <= available ? headerFrames : available;
+
+  const pointLabels = uniqueLabels(
+    [...(paramStrings(params, "POINT:LABELS", view) ?? []), ...(paramStrings(params, "POINT:LABELS2", view) ?? [])],
+    nPoints,
+    "Point"
+  );
+  const toMetres = unitsToMetres(paramStrings(params, "POINT:UNITS", view)?.[0]);
+
+  const nAnalog = Math.floor(analogPerFrame / samplesPerFrame);
+  const analogLabels = uniqueLabels(
+    [...(paramStrings(params, "ANALOG:LABELS", view) ?? []), ...(paramStrings(params, "ANALOG:LABELS2", view) ?? [])],
+    nAnalog,
+    "Analog"
+  );
+  const analogRate = paramNumbers(params, "ANALOG:RATE", r)?.[0] || pointRate * samplesPerFrame;
+  const genScale = paramNumbers(params, "ANALOG:GEN_SCALE", r)?.[0] ?? 1;
+  const chScale = paramNumbers(params, "ANALOG:SCALE", r) ?? [];
+  const chOffset = paramNumbers(params, "ANALOG:OFFSET", r) ?? [];
+  const unsigned = /unsigned/i.test(paramStrings(params, "ANALOG:FORMAT", view)?.[0] ?? "");
+
+  const readValue = isFloat ? r.f32 : r.i16;
+  const readAnalog = isFloat ? r.f32 : unsigned ? r.u16 : r.i16;
+
+  const nAnalogSamples = nAnalog ? nFrames * samplesPerFrame : 0;
+  const pointT = new Float64Array(nPoints ? nFrames : 0);
+  const analogT = new Float64Array(nAnalogSamples);
+  const points: Record<string, Float32Array> = {};
+  for (const label of pointLabels.slice(0, nPoints)) {
+    for (const axis of ["X", "Y", "Z"]) points[`${label}_${axis}`] = new Float32Array(pointT.length).fill(NaN);
+  }
+  const analogs = analogLabels.slice(0, nAnalog).map(() => new Float32Array(nAnalogSamples));
+
+  for (let f = 0; f < nFrames; f++) {
+    let o = dataOffset + f * frameBytes;
+
+    if (nPoints) pointT[f] = f / pointRate;
+    for (let i = 0; i < nPoints; i++, o += 4 * word) {
+      const residual = readValue(o + 3 * word);
+      if (residual < 0) continue; // marker not reconstructed in this frame
+      const s = isFloat ? toMetres : pointScale * toMetres;
+      const label = pointLabels[i];
+      points[`${label}_X`][f] = readValue(o) * s;
+      points[`${label}_Y`][f] = readValue(o + word) * s;
+      points[`${label}_Z`][f] = readValue(o + 2 * word) * s;
+    }
+
+    for (let k = 0; k < samplesPerFrame && nAnalog; k++) {
+      const j = f * samplesPerFrame + k;
+      analogT[j] = j / analogRate;
+      for (let c = 0; c < nAnalog; c++, o += word) {
+        const raw = readAnalog(o);
+        analogs[c][j] = (raw - (chOffset[c] ?? 0)) * genScale * (chScale[c] ?? 1);
+      }
+    }
+  }
+
+  const out: SessionData = {};
+  const pointSheet = makeSheet(pointT, points);
+  if (pointSheet.keys.length) out["C3D Points"] = pointSheet;
+  if (nAnalogSamples) {
+    out["C3D Analogs"] = makeSheet(analogT, Object.fromEntries(analogs.map((col, c) => [analogLabels[c], col])));
+  }
+  return out;
+}
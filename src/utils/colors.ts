@@ -0,0 +1,15 @@
+// src/utils/colors.ts
+
+/** Trace colours for multi-series graphs; brand orange first. */
+export const SERIES_PALETTE = [
+  "#e5812b",
+  "#5aa9ff",
+  "#a3e635",
+  "#facc15",
+  "#c084fc",
+  "#22d3ee",
+  "#f472b6",
+  "#ef4444",
+];
+
+export const seriesColor = (i: number) => SERIES_PALETTE[i % SERIES_PALETTE.length];
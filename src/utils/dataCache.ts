@@ -0,0 +1,125 @@
+// src/utils/dataCache.ts
+import type { SessionData } from "./sessionData";
+
+/*
+ * IndexedDB cache of parsed data files, one entry per URL. An entry is only
+ * used while the file's validator (ETag, else size + Last-Modified) and the
+ * frame-rate guess it was parsed with still match. Summaries live in their
+ * own store so the admin view can list entries without loading the columns.
+ * Every failure (private mode, quota, blocked upgrade) is logged and treated
+ * as a miss — the cache never stops a session from loading.
+ */
+
+const DB_NAME = "seq_cache";
+/** Bumped when the stored shape changes; upgrading drops the old entries */
+const DB_VERSION = 2;
+const ENTRIES = "entries";
+const SHEETS = "sheets";
+
+export type CacheEntry = {
+  url: string;
+  /** `etag:<etag>` or `size:<bytes>|<last-modified>` */
+  validator: string;
+  fpsGuess: number;
+  /** Size of the file as served */
+  fileBytes: number;
+  /** Size of the cached columns */
+  bytes: number;
+  sheetNames: string[];
+  /** ms since epoch */
+  storedAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  dbPromise ??= new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(null);
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const name of [ENTRIES, SHEETS]) if (db.objectStoreNames.contains(name)) db.deleteObjectStore(name);
+      db.createObjectStore(ENTRIES, { keyPath: "url" });
+      db.createObjectStore(SHEETS);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      console.warn("Data cache unavailable:", req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Cached sheets for `url`, or null when missing or stale. */
+export async function readCache(url: string, validator: string, fpsGuess: number): Promise<SessionData | null> {
+  try {
+    const db = await openDb();
+    if (!db) return null;
+    const tx = db.transaction([ENTRIES, SHEETS], "readonly");
+    const entry = (await done(tx.objectStore(ENTRIES).get(url))) as CacheEntry | undefined;
+    if (!entry || entry.validator !== validator || entry.fpsGuess !== fpsGuess) return null;
+    return ((await done(tx.objectStore(SHEETS).get(url))) as SessionData | undefined) ?? null;
+  } catch (err) {
+    console.warn("Data cache read failed:", err);
+    return null;
+  }
+}
+
+export async function writeCache(entry: CacheEntry, data: SessionData): Promise<void> {
+  try {
+    const db = await openDb();
+    if (!db) return;
+    const tx = db.transaction([ENTRIES, SHEETS], "readwrite");
+    tx.objectStore(ENTRIES).put(entry);
+    tx.objectStore(SHEETS).put(data, entry.url);
+    await committed(tx);
+  } catch (err) {
+    console.warn("Data cache write failed:", err);
+  }
+}
+
+/** Summaries of every cached file, newest first. */
+export async function listCache(): Promise<CacheEntry[]> {
+  try {
+    const db = await openDb();
+    if (!db) return [];
+    const entries = (await done(db.transaction(ENTRIES, "readonly").objectStore(ENTRIES).getAll())) as CacheEntry[];
+    return entries.sort((a, b) => b.storedAt - a.storedAt);
+  } catch (err) {
+    console.warn("Data cache list failed:", err);
+    return [];
+  }
+}
+
+/** Drop one URL, or everything when `url` is omitted. */
+export async function clearCache(url?: string): Promise<void> {
+  try {
+    const db = await openDb();
+    if (!db) return;
+    const tx = db.transaction([ENTRIES, SHEETS], "readwrite");
+    for (const name of [ENTRIES, SHEETS]) {
+      const store = tx.objectStore(name);
+      if (url == null) store.clear();
+      else store.delete(url);
+    }
+    await committed(tx);
+  } catch (err) {
+    console.warn("Data cache clear failed:", err);
+  }
+}
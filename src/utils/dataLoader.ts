@@ -0,0 +1,196 @@
+// src/utils/dataLoader.ts
+import { parseDataArrayBuffer } from "./excel";
+import { sessionBytes } from "./sessionData";
+import type { SessionData } from "./sessionData";
+import { readCache, writeCache } from "./dataCache";
+import { DEFAULT_FPS } from "./sampleRate";
+
+/*
+ * Session data loading for the viewer: files are parsed in parse.worker.ts
+ * and parsed URLs are kept in the IndexedDB cache (dataCache.ts), so
+ * revisiting a session skips both the parse and, when the server answers
+ * HEAD, the download. Without worker support everything parses in place.
+ */
+
+/** Messages to and from parse.worker.ts */
+export type ParseRequest = { id: number; buf: ArrayBuffer; fileName: string; fpsGuess: number };
+export type ParseResponse = { id: number; data: SessionData } | { id: number; error: string };
+
+type Pending = {
+  request: ParseRequest;
+  resolve: (data: SessionData) => void;
+  reject: (err: unknown) => void;
+  retry: () => void;
+};
+
+/** undefined: not started yet; null: workers unavailable */
+let worker: Worker | null | undefined;
+let nextId = 1;
+const pending = new Map<number, Pending>();
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  try {
+    const w = new Worker(new URL("./parse.worker.ts", import.meta.url), { type: "module" });
+    w.onmessage = (e: MessageEvent<ParseResponse>) => {
+      const job = pending.get(e.data.id);
+      if (!job) return;
+      pending.delete(e.data.id);
+      if ("error" in e.data) job.reject(new Error(e.data.error));
+      else job.resolve(e.data.data);
+    };
+    // The worker itself failed (didn't load, crashed): parse whatever was queued in place
+    w.onerror = (e) => {
+      console.warn("Parse worker failed; parsing on the main thread:", e.message);
+      w.terminate();
+      worker = null;
+      const jobs = [...pending.values()];
+      pending.clear();
+      jobs.forEach((job) => job.retry());
+    };
+    worker = w;
+  } catch (err) {
+    console.warn("Parse worker unavailable:", err);
+    worker = null;
+  }
+  return worker;
+}
+
+/**
+ * A parse can't be interrupted, so dropping one means a fresh worker; the
+ * jobs still wanted are posted to it again.
+ */
+function restartWorker() {
+  worker?.terminate();
+  worker = undefined;
+  const w = getWorker();
+  for (const [id, job] of [...pending]) {
+    if (w) {
+      w.postMessage(job.request);
+    } else {
+      pending.delete(id);
+      job.retry();
+    }
+  }
+}
+
+/**
+ * Parse any supported data file off the main thread (see
+ * excel.parseDataArrayBuffer). Aborting `signal` rejects with its reason and
+ * stops the parse.
+ */
+export function parseDataBufferInWorker(
+  buf: ArrayBuffer,
+  fileName: string,
+  fpsGuess = DEFAULT_FPS,
+  signal?: AbortSignal
+): Promise<SessionData> {
+  const w = getWorker();
+  if (!w) {
+    return Promise.resolve().then(() => {
+      signal?.throwIfAborted();
+      return parseDataArrayBuffer(buf, fileName, fpsGuess);
+    });
+  }
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const request: ParseRequest = { id: nextId++, buf, fileName, fpsGuess };
+    const { id } = request;
+    const onAbort = () => {
+      if (!pending.delete(id)) return;
+      reject(signal!.reason);
+      restartWorker();
+    };
+    const settled = () => signal?.removeEventListener("abort", onAbort);
+    pending.set(id, {
+      request,
+      resolve: (data) => {
+        settled();
+        resolve(data);
+      },
+      reject: (err) => {
+        settled();
+        reject(err);
+      },
+      retry: () => {
+        settled();
+        try {
+          signal?.throwIfAborted();
+          resolve(parseDataArrayBuffer(buf, fileName, fpsGuess));
+        } catch (err) {
+          reject(err instanceof Error ? err : new Error(String(err)));
+        }
+      },
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+    // Posted as a copy so the in-place fallback (and a restarted worker) still has the bytes
+    w.postMessage(request);
+  });
+}
+
+/** Parse a File chosen via <input> off the main thread (uploads aren't cached). */
+export async function parseDataFileInWorker(file: File, fpsGuess = DEFAULT_FPS, signal?: AbortSignal): Promise<SessionData> {
+  return parseDataBufferInWorker(await file.arrayBuffer(), file.name, fpsGuess, signal);
+}
+
+/** `etag:<etag>`, else `size:<bytes>|<last-modified>` (Content-Length when sent, so HEAD and GET agree). */
+function validatorOf(headers: Headers, fallbackBytes?: number): string | null {
+  const etag = headers.get("etag");
+  if (etag) return `etag:${etag}`;
+  const size = headers.get("content-length") ?? fallbackBytes;
+  return size != null ? `size:${size}|${headers.get("last-modified") ?? ""}` : null;
+}
+
+async function headValidator(url: string, signal?: AbortSignal): Promise<string | null> {
+  try {
+    const res = await fetch(url, { method: "HEAD", cache: "no-cache", signal });
+    return res.ok ? validatorOf(res.headers) : null;
+  } catch {
+    signal?.throwIfAborted();
+    return null;
+  }
+}
+
+/**
+ * Load a data file by URL: from the cache when the file hasn't changed,
+ * otherwise fetched, parsed in the worker and cached for next time. Aborting
+ * `signal` (the viewer moved on to another take) cancels the download or
+ * parse and rejects with its reason.
+ */
+export async function loadDataUrlToDataSets(url: string, fpsGuess = DEFAULT_FPS, signal?: AbortSignal): Promise<SessionData> {
+  const head = await headValidator(url, signal);
+  if (head) {
+    const hit = await readCache(url, head, fpsGuess);
+    signal?.throwIfAborted();
+    if (hit) return hit;
+  }
+
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Failed to fetch data file: ${res.status} ${res.statusText}`);
+  const buf = await res.arrayBuffer();
+  const validator = validatorOf(res.headers, buf.byteLength);
+
+  // Servers that refuse HEAD still save the parse
+  if (validator && validator !== head) {
+    const hit = await readCache(url, validator, fpsGuess);
+    signal?.throwIfAborted();
+    if (hit) return hit;
+  }
+
+  const data = await parseDataBufferInWorker(buf, url, fpsGuess, signal);
+  if (validator) {
+    void writeCache(
+      {
+        url,
+        validator,
+        fpsGuess,
+        fileBytes: buf.byteLength,
+        bytes: sessionBytes(data),
+        sheetNames: Object.keys(data),
+        storedAt: Date.now(),
+      },
+      data
+    );
+  }
+  return data;
+}
@@ -0,0 +1,260 @@
+// src/utils/diagnostics.ts
+import { makeSheet } from "./sessionData";
+import type { SheetData } from "./sessionData";
+
+/*
+ * Data-quality pass over a sheet. The readers leave cells that aren't numbers
+ * as NaN, so a missing sample is simply NaN in that channel's column.
+ *   gap   : run of frames where the channel is missing (marker dropout)
+ *   flat  : run of identical values (a held / frozen signal)
+ *   spike : single samples that jump away and straight back
+ *   time  : the Time column going backwards, skipping frames or left blank
+ */
+
+export type IssueKind = "gap" | "flat" | "spike" | "time";
+
+export type DataIssue = {
+  kind: IssueKind;
+  t0: number; // sheet time (s)
+  t1: number;
+  samples: number;
+};
+
+export type ChannelReport = {
+  channel: string;
+  samples: number;
+  missing: number;
+  /** Time of the first valid sample (graphs start each channel there) */
+  start: number;
+  issues: DataIssue[];
+};
+
+export type SheetReport = {
+  rows: number;
+  time: DataIssue[];
+  channels: ChannelReport[];
+};
+
+export type GapFill = "off" | "linear" | "spline";
+
+export const ISSUE_META: Record<IssueKind, { label: string; color: string }> = {
+  gap: { label: "Missing", color: "#ef4444" },
+  flat: { label: "Flat-lined", color: "#f59e0b" },
+  spike: { label: "Spike", color: "#c084fc" },
+  time: { label: "Time", color: "#38bdf8" },
+};
+
+/** This many identical samples in a row count as a flat line. */
+const FLAT_MIN_SAMPLES = 12;
+/** Channels with fewer distinct values are flags / counters: no flat or spike checks. */
+const DISCRETE_MAX_VALUES = 10;
+/** A spike leaves and returns by more than this many robust SDs of the sample-to-sample change. */
+const SPIKE_SIGMA = 6;
+/** Steps either side of a candidate spike used as its local scale. */
+const SPIKE_WINDOW = 4;
+/** A time step this many times the median spacing means dropped frames. */
+const TIME_SKIP_FACTOR = 1.5;
+
+function median(values: number[]): number {
+  if (!values.length) return NaN;
+  const s = [...values].sort((a, b) => a - b);
+  const m = s.length >> 1;
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+/** Runs of consecutive flagged indices as issues. */
+function runs(flags: boolean[], times: number[], kind: IssueKind, minLength = 1): DataIssue[] {
+  const out: DataIssue[] = [];
+  let start = -1;
+  for (let i = 0; i <= flags.length; i++) {
+    if (i < flags.length && flags[i]) {
+      if (start < 0) start = i;
+    } else if (start >= 0) {
+      if (i - start >= minLength) out.push({ kind, t0: times[start], t1: times[i - 1], samples: i - start });
+      start = -1;
+    }
+  }
+  return out;
+}
+
+/**
+ * Sheet times with blanks filled in from the neighbouring rows (or a median
+ * step past either end), only for placing issues: the sheet keeps its NaNs.
+ */
+function placementTimes(t: ArrayLike<number>): number[] {
+  const n = t.length;
+  const known: number[] = [];
+  for (let i = 0; i < n; i++) if (Number.isFinite(t[i])) known.push(i);
+  if (!known.length) return Array.from({ length: n }, (_, i) => i);
+
+  const steps: number[] = [];
+  for (let k = 1; k < known.length; k++) {
+    const dt = (t[known[k]] - t[known[k - 1]]) / (known[k] - known[k - 1]);
+    if (dt > 0) steps.push(dt);
+  }
+  const step = median(steps) || 1;
+
+  const out = Array.from(t);
+  let k = 0;
+  for (let i = 0; i < n; i++) {
+    if (Number.isFinite(out[i])) continue;
+    while (k < known.length && known[k] < i) k++;
+    const a = known[k - 1];
+    const b = known[k];
+    if (a != null && b != null) out[i] = t[a] + ((t[b] - t[a]) * (i - a)) / (b - a);
+    else if (a != null) out[i] = t[a] + (i - a) * step;
+    else out[i] = t[b] - (b - i) * step;
+  }
+  return out;
+}
+
+function timeIssues(raw: ArrayLike<number>, times: number[]): DataIssue[] {
+  const blank = Array.from(raw, (t) => !Number.isFinite(t));
+  const out: DataIssue[] = runs(blank, times, "time");
+  const dts: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    if (!blank[i] && !blank[i - 1] && times[i] > times[i - 1]) dts.push(times[i] - times[i - 1]);
+  }
+  const step = median(dts);
+
+  for (let i = 1; i < times.length; i++) {
+    if (blank[i] || blank[i - 1]) continue;
+    const dt = times[i] - times[i - 1];
+    // The step right after a backwards jump just catches up: one problem, not two
+    const afterBackwards = i > 1 && !blank[i - 2] && times[i - 1] <= times[i - 2];
+    if (!(dt > 0)) {
+      out.push({ kind: "time", t0: Math.min(times[i], times[i - 1]), t1: Math.max(times[i], times[i - 1]), samples: 1 });
+    } else if (step > 0 && dt > step * TIME_SKIP_FACTOR && !afterBackwards) {
+      out.push({ kind: "time", t0: times[i - 1], t1: times[i], samples: Math.round(dt / step) - 1 });
+    }
+  }
+  return out.sort((a, b) => a.t0 - b.t0);
+}
+
+function channelReport(sheet: SheetData, times: number[], channel: string): ChannelReport {
+  const n = sheet.t.length;
+  const values = sheet.columns[channel];
+  const valid = Array.from(values, (v) => Number.isFinite(v));
+  const first = valid.indexOf(true);
+
+  const issues: DataIssue[] = runs(valid.map((ok) => !ok), times, "gap");
+
+  // Flat lines and spikes on the valid samples only
+  const idx: number[] = [];
+  for (let i = 0; i < n; i++) if (valid[i]) idx.push(i);
+  const distinct = new Set<number>();
+  for (const i of idx) {
+    distinct.add(values[i]);
+    if (distinct.size > DISCRETE_MAX_VALUES) break;
+  }
+
+  if (distinct.size > DISCRETE_MAX_VALUES) {
+    const flat = new Array<boolean>(n).fill(false);
+    let runStart = 0;
+    for (let k = 1; k <= idx.length; k++) {
+      if (k < idx.length && values[idx[k]] === values[idx[runStart]]) continue;
+      if (k - runStart >= FLAT_MIN_SAMPLES) for (let j = runStart; j < k; j++) flat[idx[j]] = true;
+      runStart = k;
+    }
+    issues.push(...runs(flat, times, "flat"));
+
+    const diffs: number[] = [];
+    for (let k = 1; k < idx.length; k++) diffs.push(values[idx[k]] - values[idx[k - 1]]);
+    const med = median(diffs);
+    const sigma = 1.4826 * median(diffs.map((d) => Math.abs(d - med)));
+    if (sigma > 0) {
+      const spike = new Array<boolean>(n).fill(false);
+      for (let k = 1; k < idx.length - 1; k++) {
+        const a = diffs[k - 1];
+        const b = diffs[k];
+        const jump = Math.min(Math.abs(a), Math.abs(b));
+        if (Math.sign(a) === Math.sign(b) || jump <= SPIKE_SIGMA * sigma) continue;
+        // Sharp but genuine peaks have similar steps around them; spikes sit in calm data
+        const around: number[] = [];
+        for (let j = k - 1 - SPIKE_WINDOW; j <= k + SPIKE_WINDOW; j++) {
+          if (j >= 0 && j < diffs.length && j !== k - 1 && j !== k) around.push(Math.abs(diffs[j]));
+        }
+        if (jump > SPIKE_SIGMA * Math.max(sigma, median(around))) spike[idx[k]] = true;
+      }
+      issues.push(...runs(spike, times, "spike"));
+    }
+  }
+
+  issues.sort((a, b) => a.t0 - b.t0);
+  return {
+    channel,
+    samples: idx.length,
+    missing: n - idx.length,
+    start: first >= 0 ? times[first] : 0,
+    issues,
+  };
+}
+
+/** Diagnose every channel of a sheet. */
+export function diagnoseSheet(sheet: SheetData): SheetReport {
+  const times = placementTimes(sheet.t);
+  return {
+    rows: sheet.t.length,
+    time: timeIssues(sheet.t, times),
+    channels: Object.keys(sheet.columns).map((k) => channelReport(sheet, times, k)),
+  };
+}
+
+/** Count of each issue kind (for table cells). */
+export function issueCounts(issues: DataIssue[]): Record<IssueKind, number> {
+  const out: Record<IssueKind, number> = { gap: 0, flat: 0, spike: 0, time: 0 };
+  for (const i of issues) out[i.kind]++;
+  return out;
+}
+
+/**
+ * Fill interior gaps in every channel by interpolating over time: straight
+ * lines or a cubic Hermite spline that keeps the slope on either side.
+ * Leading / trailing gaps stay empty. Returns `sheet` itself when `method` is "off".
+ */
+export function fillGaps(sheet: SheetData, method: GapFill): SheetData {
+  const n = sheet.t.length;
+  if (method === "off" || n < 3) return sheet;
+  const times = placementTimes(sheet.t);
+
+  const filled: Record<string, Float32Array> = {};
+  for (const [key, values] of Object.entries(sheet.columns)) {
+    const col = (filled[key] = Float32Array.from(values));
+    const ok = (i: number) => i >= 0 && i < n && Number.isFinite(values[i]);
+    const slope = (i: number, j: number) =>
+      ok(i) && ok(j) && times[j] !== times[i] ? (values[j] - values[i]) / (times[j] - times[i]) : NaN;
+
+    let prev = -1;
+    for (let i = 0; i < n; i++) {
+      if (!ok(i)) continue;
+      if (prev >= 0 && i - prev > 1) {
+        const ta = times[prev];
+        const tb = times[i];
+        const va = values[prev];
+        const vb = values[i];
+        const span = tb - ta;
+        const secant = span !== 0 ? (vb - va) / span : 0;
+        const ma = Number.isFinite(slope(prev - 1, prev)) ? slope(prev - 1, prev) : secant;
+        const mb = Number.isFinite(slope(i, i + 1)) ? slope(i, i + 1) : secant;
+
+        for (let j = prev + 1; j < i; j++) {
+          // Fall back to row spacing if the Time column doesn't advance across the gap
+          const u = span > 0 ? (times[j] - ta) / span : (j - prev) / (i - prev);
+          if (method === "linear" || !(span > 0)) {
+            col[j] = va + (vb - va) * u;
+          } else {
+            const u2 = u * u;
+            const u3 = u2 * u;
+            col[j] =
+              (2 * u3 - 3 * u2 + 1) * va +
+              (u3 - 2 * u2 + u) * span * ma +
+              (-2 * u3 + 3 * u2) * vb +
+              (u3 - u2) * span * mb;
+          }
+        }
+      }
+      prev = i;
+    }
+  }
+  return makeSheet(sheet.t, filled);
+}
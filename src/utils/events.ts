@@ -0,0 +1,191 @@
+// src/utils/events.ts
+import type { JointData } from "./joints";
+import { DEFAULT_KINEMATICS, butterworthLowpass, differentiate, medianInterval } from "./kinematics";
+import type { KinematicsOptions } from "./kinematics";
+import { detectLeadSide, pointSpeed } from "./sequence";
+import type { Side } from "./sequence";
+
+export type SwingEventId = "stance" | "load" | "footPlant" | "contact" | "followThrough";
+
+export type SwingEvent = {
+  id: SwingEventId;
+  label: string;
+  t: number; // data time (s)
+  frame: number;
+  color: string;
+};
+
+export const EVENT_META: Record<SwingEventId, { label: string; color: string }> = {
+  stance: { label: "Stance", color: "#9fb1c7" },
+  load: { label: "Load", color: "#5aa9ff" },
+  footPlant: { label: "Foot plant", color: "#a3e635" },
+  contact: { label: "Contact", color: "#e5812b" },
+  followThrough: { label: "Follow-through", color: "#c084fc" },
+};
+
+/** Ball within this distance (m) of the hands counts as contact. */
+const CONTACT_DISTANCE = 0.35;
+/** Hands must travel back at least this far (m) for a distinct load. */
+const LOAD_TRAVEL = 0.03;
+/** Follow-through once hand speed falls below this fraction of its peak. */
+const FOLLOW_FRACTION = 0.3;
+
+function argmin(values: ArrayLike<number>, from = 0, to = values.length) {
+  let best = -1;
+  let bestV = Infinity;
+  for (let i = Math.max(0, from); i < Math.min(values.length, to); i++) {
+    const v = values[i];
+    if (Number.isFinite(v) && v < bestV) {
+      bestV = v;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function argmax(values: ArrayLike<number>, from = 0, to = values.length) {
+  let best = -1;
+  let bestV = -Infinity;
+  for (let i = Math.max(0, from); i < Math.min(values.length, to); i++) {
+    const v = values[i];
+    if (Number.isFinite(v) && v > bestV) {
+      bestV = v;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function component(data: JointData, key: string, axis: 0 | 1 | 2): Float64Array {
+  const n = data.times.length;
+  const out = new Float64Array(n);
+  const xyz = data.tracks[key].xyz;
+  for (let i = 0; i < n; i++) out[i] = xyz[i * 3 + axis];
+  return out;
+}
+
+/**
+ * Detect swing phases from joint-center positions:
+ * - contact: ball closest to the hands when `/Object/Ball` is tracked near the
+ *   swing, otherwise the lead-hand speed peak
+ * - foot plant: lead ankle settles (height and vertical velocity) after its
+ *   stride lift
+ * - load: hands furthest back along the swing direction before foot plant
+ * - stance: hands leave their set-up position (onset of the load)
+ * - follow-through: hand speed drops below 30% of its peak after contact
+ *
+ * Events that can't be found are omitted; times are in data seconds.
+ */
+export function detectSwingEvents(
+  data: JointData,
+  opts: KinematicsOptions & { lead?: Side } = DEFAULT_KINEMATICS
+): SwingEvent[] {
+  const tr = data.tracks;
+  const lead = opts.lead ?? detectLeadSide(data);
+  const wristKey = `/Joint/Wrist/${lead}`;
+  const ankleKey = `/Joint/Ankle/${lead}`;
+  const n = data.times.length;
+  if (!tr[wristKey] || n < 8) return [];
+
+  const fs = 1 / medianInterval(data.times);
+  const cutoff = opts.cutoffHz;
+  const handSpeed = pointSpeed(data, tr[wristKey], fs, cutoff);
+  const handPeak = argmax(handSpeed);
+  if (handPeak < 0) return [];
+
+  const found: Partial<Record<SwingEventId, number>> = {};
+
+  /* contact */
+  found.contact = handPeak;
+  const ball = tr["/Object/Ball/Center"];
+  if (ball) {
+    const window = Math.round(0.15 * fs);
+    const dist = new Float64Array(n).fill(NaN);
+    const w = tr[wristKey].xyz;
+    for (let i = Math.max(0, handPeak - window); i < Math.min(n, handPeak + window); i++) {
+      const dx = ball.xyz[i * 3] - w[i * 3];
+      const dy = ball.xyz[i * 3 + 1] - w[i * 3 + 1];
+      const dz = ball.xyz[i * 3 + 2] - w[i * 3 + 2];
+      dist[i] = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    }
+    const closest = argmin(dist);
+    if (closest >= 0 && dist[closest] < CONTACT_DISTANCE) found.contact = closest;
+  }
+  const contact = found.contact;
+
+  /* foot plant */
+  if (tr[ankleKey]) {
+    const height = butterworthLowpass(component(data, ankleKey, 1), fs, cutoff);
+    const vy = differentiate(height, data.times);
+    const base = argmin(height, 0, Math.max(1, Math.round(n * 0.1)));
+    const ground = base >= 0 ? height[base] : NaN;
+    const lift = argmax(height, 0, contact + 1);
+    if (lift >= 0 && height[lift] - ground > 0.02) {
+      const settle = ground + 0.25 * (height[lift] - ground);
+      for (let i = lift; i <= contact; i++) {
+        if (height[i] <= settle && Math.abs(vy[i]) < 0.25) {
+          found.footPlant = i;
+          break;
+        }
+      }
+    }
+  }
+
+  /* load: hands furthest back along the horizontal swing direction */
+  const w = tr[wristKey].xyz;
+  let dirX = 0;
+  let dirZ = 0;
+  for (let i = Math.max(0, handPeak - 2); i <= Math.min(n - 1, handPeak + 2); i++) {
+    const j = Math.min(n - 1, i + 1);
+    const dx = w[j * 3] - w[i * 3];
+    const dz = w[j * 3 + 2] - w[i * 3 + 2];
+    if (Number.isFinite(dx) && Number.isFinite(dz)) {
+      dirX += dx;
+      dirZ += dz;
+    }
+  }
+  const len = Math.hypot(dirX, dirZ);
+  const loadEnd = found.footPlant ?? contact;
+  let proj: Float64Array | null = null;
+  if (len > 0 && loadEnd > 0) {
+    const raw = new Float64Array(n).fill(NaN);
+    for (let i = 0; i <= loadEnd; i++) raw[i] = (w[i * 3] * dirX + w[i * 3 + 2] * dirZ) / len;
+    proj = butterworthLowpass(raw, fs, cutoff);
+    const load = argmin(proj, Math.round(n * 0.05), loadEnd + 1);
+    if (load >= 0) found.load = load;
+  }
+
+  /* stance: last frame with the hands still at their set-up position before the load */
+  if (proj && found.load != null) {
+    const setup = argmax(proj, 0, found.load);
+    const travel = setup >= 0 ? proj[setup] - proj[found.load] : 0;
+    if (travel > LOAD_TRAVEL) {
+      for (let i = found.load; i >= setup; i--) {
+        if (proj[i] >= proj[found.load] + 0.8 * travel) {
+          found.stance = i;
+          break;
+        }
+      }
+    }
+  }
+
+  /* follow-through */
+  const threshold = handSpeed[handPeak] * FOLLOW_FRACTION;
+  for (let i = Math.max(handPeak, contact); i < n; i++) {
+    if (handSpeed[i] < threshold) {
+      found.followThrough = i;
+      break;
+    }
+  }
+
+  const order: SwingEventId[] = ["stance", "load", "footPlant", "contact", "followThrough"];
+  const events: SwingEvent[] = [];
+  let last = -1;
+  for (const id of order) {
+    const frame = found[id];
+    if (frame == null || frame < last) continue;
+    last = frame;
+    events.push({ id, ...EVENT_META[id], t: data.times[frame], frame });
+  }
+  return events;
+}
@@ -1,27 +1,57 @@
 // src/utils/excel.ts
 import { read, utils } from "xlsx";
+import { parseC3D } from "./c3d";
+import { parseBvhToDataSets } from "./bvh";
+import { DEFAULT_FPS, resolveSessionRate, sheetRates } from "./sampleRate";
+import { makeSheet, sheetToRows } from "./sessionData";
+import type { SessionData, SheetData } from "./sessionData";
 
+/** One frame keyed by channel; the JSON import / export shape, see sessionData.ts */
 export type Row = Record<string, number>;
 export type RowsBySheet = Record<string, Row[]>;
 
 /** Parse a File chosen via <input> */
-export async function parseExcelToDataSets(file: File, fpsGuess = 120): Promise<RowsBySheet> {
+export async function parseExcelToDataSets(file: File, fpsGuess = DEFAULT_FPS): Promise<SessionData> {
   const buf = await file.arrayBuffer();
   return parseWorkbookArrayBuffer(buf, fpsGuess);
 }
 
 /** Parse an Excel file fetched from a URL (served from /public) */
-export async function parseExcelUrlToDataSets(url: string, fpsGuess = 120): Promise<RowsBySheet> {
+export async function parseExcelUrlToDataSets(url: string, fpsGuess = DEFAULT_FPS): Promise<SessionData> {
   const res = await fetch(url);
   if (!res.ok) throw new Error(`Failed to fetch Excel: ${res.status} ${res.statusText}`);
   const buf = await res.arrayBuffer();
   return parseWorkbookArrayBuffer(buf, fpsGuess);
 }
 
-/** Core parser used by both helpers */
-export function parseWorkbookArrayBuffer(buf: ArrayBuffer, fpsGuess = 120): RowsBySheet {
+/** File types the data loaders understand (for <input accept>). */
+export const DATA_FILE_ACCEPT = ".xlsx,.xls,.csv,.c3d,.bvh";
+
+/** Parse any supported data file (workbook, CSV, C3D, BVH) chosen via <input> */
+export async function parseDataFileToDataSets(file: File, fpsGuess = DEFAULT_FPS): Promise<SessionData> {
+  return parseDataArrayBuffer(await file.arrayBuffer(), file.name, fpsGuess);
+}
+
+/** Parse any supported data file fetched from a URL; the format comes from the extension */
+export async function parseDataUrlToDataSets(url: string, fpsGuess = DEFAULT_FPS): Promise<SessionData> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch data file: ${res.status} ${res.statusText}`);
+  return parseDataArrayBuffer(await res.arrayBuffer(), url, fpsGuess);
+}
+
+/** Dispatch on file extension; anything that isn't C3D or BVH goes through xlsx (which reads CSV too) */
+export function parseDataArrayBuffer(buf: ArrayBuffer, fileName: string, fpsGuess = DEFAULT_FPS): SessionData {
+  const ext = fileName.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  if (ext === "c3d") return parseC3D(buf);
+  if (ext === "bvh") return parseBvhToDataSets(new TextDecoder().decode(buf));
+  return parseWorkbookArrayBuffer(buf, fpsGuess);
+}
+
+/** Core parser used by both helpers; each sheet's cell table is read straight into columns */
+export function parseWorkbookArrayBuffer(buf: ArrayBuffer, fpsGuess = DEFAULT_FPS): SessionData {
   const wb = read(buf, { type: "array" });
-  const out: RowsBySheet = {};
+  // Only the cell table and its header are kept per sheet until its columns are built
+  const raw: Array<ReturnType<typeof detectHeaderAndExtract> & { name: string; frameIndexed: boolean }> = [];
 
   for (const sheetName of wb.SheetNames) {
     const ws = wb.Sheets[sheetName];
@@ -33,17 +63,29 @@ export function parseWorkbookArrayBuffer(buf: ArrayBuffer, fpsGuess = 120): Rows
     const { headers, dataRows } = detectHeaderAndExtract(table);
     if (!headers.length || dataRows.length === 0) continue;
 
-    const rowsRaw = toObjects(headers, dataRows);
-    const cleaned = normalizeSheet(rowsRaw, fpsGuess);
-    if (cleaned.length && cleaned.some((r) => Object.keys(r).some((k) => k !== "t"))) {
-      out[sheetName] = cleaned;
+    const cols = findTimeColumns(headers);
+    raw.push({ name: sheetName, headers, dataRows, frameIndexed: !cols.timeKey && !cols.stampKey && !!cols.frameKey });
+  }
+
+  // Sheets with real time stamps go first; frame-indexed sheets then use their rate
+  const parsed: SessionData = {};
+  let fps = fpsGuess;
+  for (const frameIndexed of [false, true]) {
+    for (const sheet of raw.filter((r) => r.frameIndexed === frameIndexed)) {
+      const data = sheetFromTable(sheet.headers, sheet.dataRows, fps);
+      if (data) parsed[sheet.name] = data;
     }
+    if (!frameIndexed) fps = resolveSessionRate(sheetRates(parsed), null, fpsGuess).fps;
   }
+
+  // Back in workbook order
+  const out: SessionData = {};
+  for (const { name } of raw) if (parsed[name]) out[name] = parsed[name];
   return out;
 }
 
 /** Legacy single-sheet helper retained for compatibility. */
-export async function parseExcelToRows(file: File, fpsGuess = 120): Promise<Row[]> {
+export async function parseExcelToRows(file: File, fpsGuess = DEFAULT_FPS): Promise<Row[]> {
   const sets = await parseExcelToDataSets(file, fpsGuess);
   const names = Object.keys(sets);
   const pref =
@@ -51,7 +93,7 @@ export async function parseExcelToRows(file: File, fpsGuess = 120): Promise<Row[
     names.find((n) => /baseball.*data/i.test(n)) ??
     names.find((n) => /signal|data|sheet1/i.test(n)) ??
     names[0];
-  return pref ? sets[pref] : [];
+  return pref ? sheetToRows(sets[pref]) : [];
 }
 
 /* -------------------- header + normalize helpers -------------------- */
@@ -88,19 +130,6 @@ function detectHeaderAndExtract(table: any[][]): { headers: string[]; dataRows:
   return { headers, dataRows };
 }
 
-function toObjects(headers: string[], dataRows: any[][]): Array<Record<string, any>> {
-  const out: Array<Record<string, any>> = [];
-  for (const r of dataRows) {
-    const obj: Record<string, any> = {};
-    for (let i = 0; i < headers.length; i++) {
-      const key = headers[i];
-      obj[key] = i < r.length ? r[i] : null;
-    }
-    out.push(obj);
-  }
-  return out;
-}
-
 function dedupeHeaders(hs: string[]): string[] {
   const seen = new Map<string, number>();
   return hs.map((h) => {
@@ -111,10 +140,7 @@ function dedupeHeaders(hs: string[]): string[] {
   });
 }
 
-function normalizeSheet(rowsRaw: any[], fpsGuess = 120): Row[] {
-  if (!rowsRaw.length) return [];
-
-  const keys = Object.keys(rowsRaw[0] ?? {});
+function findTimeColumns(keys: string[]) {
   const timeKey =
     keys.find((k) => /^t$/i.test(k)) ??
     keys.find((k) => /^time$/i.test(k)) ??
@@ -122,65 +148,85 @@ function normalizeSheet(rowsRaw: any[], fpsGuess = 120): Row[] {
     keys.find((k) => /(time).*?(s|sec|seconds)/i.test(k));
   const msKey = keys.find((k) => /(ms|millisecond)/i.test(k));
   const frameKey = keys.find((k) => /^frame(s)?$/i.test(k) || /frame ?index/i.test(k));
+  const stampKey = keys.find((k) => /timestamp/i.test(k));
+  return { timeKey, msKey, frameKey, stampKey };
+}
 
-  const num = (v: any) => {
-    if (typeof v === "number") return v;
-    if (v == null) return NaN;
-    const s = String(v).trim().replace(/,/g, "");
-    const n = Number(s);
-    return Number.isFinite(n) ? n : NaN;
-  };
+const num = (v: unknown) => {
+  if (typeof v === "number") return v;
+  if (v == null) return NaN;
+  const n = Number(String(v).trim().replace(/,/g, ""));
+  return Number.isFinite(n) ? n : NaN;
+};
+
+/**
+ * Cell table → sheet columns, or null when no column holds a number. `fps`
+ * converts a frame-number column to seconds when there is no time column.
+ */
+function sheetFromTable(headers: string[], dataRows: any[][], fps = DEFAULT_FPS): SheetData | null {
+  const n = dataRows.length;
+  if (!n) return null;
+
+  const { timeKey, msKey, frameKey } = findTimeColumns(headers);
+  const timeIdx = timeKey ? headers.indexOf(timeKey) : -1;
+  const frameIdx = frameKey ? headers.indexOf(frameKey) : -1;
+  const stampIdx = headers.findIndex((k) => /timestamp/i.test(k));
+  const hasTimeSource = timeIdx >= 0 || frameIdx >= 0 || stampIdx >= 0;
+
+  const channelIdx: number[] = [];
+  headers.forEach((k, i) => {
+    if (i === timeIdx || i === frameIdx || /^t$|^time$|timestamp|ms|millisecond/i.test(k)) return;
+    channelIdx.push(i);
+  });
 
   let ts0 = 0;
-  if (!timeKey && keys.some((k) => /timestamp/i.test(k))) {
-    const k = keys.find((k) => /timestamp/i.test(k))!;
-    const first = rowsRaw.find((r) => r[k] != null)?.[k];
+  if (timeIdx < 0 && stampIdx >= 0) {
+    const first = dataRows.find((r) => r[stampIdx] != null)?.[stampIdx];
     const p = typeof first === "number" ? first : Date.parse(first);
     if (isFinite(p)) ts0 = p;
   }
+  const bigSteps = timeIdx >= 0 && averageDelta(dataRows, timeIdx) > 10;
 
-  const out: Row[] = [];
-  for (let i = 0; i < rowsRaw.length; i++) {
-    const r = rowsRaw[i];
-    const row: Row = {};
+  const t = new Float64Array(n);
+  const cols = channelIdx.map(() => new Float32Array(n));
+  let kept = 0;
+  for (let i = 0; i < n; i++) {
+    const r = dataRows[i];
     let tSec = NaN;
-
-    if (timeKey) {
-      const v = r[timeKey];
-      const n = num(v);
-      const looksMs =
-        !!msKey ||
-        (Number.isFinite(n) && n > 50 && averageDelta(rowsRaw, timeKey) > 10);
-      tSec = Number.isFinite(n) ? (looksMs ? n / 1000 : n) : NaN;
-    } else if (frameKey) {
-      const f = num(r[frameKey]);
-      tSec = Number.isFinite(f) ? f / (fpsGuess || 120) : NaN;
-    } else if (keys.some((k) => /timestamp/i.test(k))) {
-      const k = keys.find((k) => /timestamp/i.test(k))!;
-      const ts = typeof r[k] === "number" ? (r[k] as number) : Date.parse(r[k]);
+    if (timeIdx >= 0) {
+      const v = num(r[timeIdx]);
+      tSec = msKey || (bigSteps && v > 50) ? v / 1000 : v;
+    } else if (frameIdx >= 0) {
+      tSec = num(r[frameIdx]) / (fps || DEFAULT_FPS);
+    } else if (stampIdx >= 0) {
+      const v = r[stampIdx];
+      const ts = typeof v === "number" ? v : Date.parse(v);
       tSec = Number.isFinite(ts) ? (ts - ts0) / 1000 : NaN;
     }
-
-    if (!Number.isFinite(tSec)) tSec = rowsRaw.length > 1 ? i / (rowsRaw.length - 1) : 0;
-    row.t = tSec;
-
-    for (const k of keys) {
-      if (k === timeKey || k === frameKey) continue;
-      if (/^t$|^time$|timestamp|ms|millisecond/i.test(k)) continue;
-      const v = num(r[k]);
-      if (Number.isFinite(v)) row[k] = v;
+    // Only a sheet with no time column at all is spread over 0…1; a blank Time cell stays
+    // NaN for diagnostics to report rather than getting a made-up time
+    if (!hasTimeSource) tSec = n > 1 ? i / (n - 1) : 0;
+
+    let any = false;
+    for (let c = 0; c < channelIdx.length; c++) {
+      const v = num(r[channelIdx[c]]);
+      cols[c][kept] = v;
+      if (Number.isFinite(v)) any = true;
     }
-
-    if (Object.keys(row).some((k) => k !== "t")) out.push(row);
+    // Frames where every channel dropped out are kept (as gaps); only wholly blank rows go
+    if ((hasTimeSource && Number.isFinite(tSec)) || any) t[kept++] = tSec;
   }
 
-  return out;
+  const columns: Record<string, Float32Array> = {};
+  channelIdx.forEach((idx, c) => (columns[headers[idx]] = kept < n ? cols[c].slice(0, kept) : cols[c]));
+  const sheet = makeSheet(kept < n ? t.slice(0, kept) : t, columns);
+  return Object.keys(sheet.columns).length ? sheet : null;
 }
 
-function averageDelta(rows: any[], key: string): number {
+function averageDelta(rows: any[][], idx: number): number {
   const vals: number[] = [];
   for (const r of rows) {
-    const x = r[key];
+    const x = r[idx];
     const n = typeof x === "number" ? x : Number(x);
     if (Number.isFinite(n)) vals.push(n);
   }
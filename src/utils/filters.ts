@@ -0,0 +1,216 @@
+// src/utils/filters.ts
+import { butterworthLowpass, differentiate, medianInterval } from "./kinematics";
+import { tracePoints } from "./sessionData";
+import type { ChannelTrace } from "./sessionData";
+
+/*
+ * Per-channel processing chains for the Metric A / B graphs. Steps run in
+ * order on the plotted trace; NaN samples stay NaN.
+ */
+
+export type FilterStep =
+  | { kind: "movingAverage"; window: number }
+  | { kind: "savitzkyGolay"; window: number; order: number }
+  | { kind: "butterworth"; cutoffHz: number }
+  | { kind: "derivative"; order: 1 | 2 };
+
+export type FilterKind = FilterStep["kind"];
+
+export const FILTER_META: Record<FilterKind, { label: string; defaults: FilterStep }> = {
+  movingAverage: { label: "Moving average", defaults: { kind: "movingAverage", window: 5 } },
+  savitzkyGolay: { label: "Savitzky–Golay", defaults: { kind: "savitzkyGolay", window: 11, order: 3 } },
+  butterworth: { label: "Butterworth low-pass", defaults: { kind: "butterworth", cutoffHz: 12 } },
+  derivative: { label: "Derivative", defaults: { kind: "derivative", order: 1 } },
+};
+
+/** Short text for legends, e.g. "SG 11/3 → LP 12 Hz → d/dt". */
+export function stepLabel(step: FilterStep): string {
+  switch (step.kind) {
+    case "movingAverage":
+      return `MA ${step.window}`;
+    case "savitzkyGolay":
+      return `SG ${step.window}/${step.order}`;
+    case "butterworth":
+      return `LP ${step.cutoffHz} Hz`;
+    case "derivative":
+      return step.order === 2 ? "d²/dt²" : "d/dt";
+  }
+}
+
+export function pipelineLabel(steps: FilterStep[]): string {
+  return steps.map(stepLabel).join(" → ");
+}
+
+/** Odd window of at least `min` samples. */
+function oddWindow(window: number, min = 1): number {
+  const w = Math.max(min, Math.round(window));
+  return w % 2 ? w : w + 1;
+}
+
+/** Centred moving average; the window shrinks at the ends and skips NaNs. */
+export function movingAverage(values: ArrayLike<number>, window: number): Float64Array {
+  const n = values.length;
+  const half = oddWindow(window) >> 1;
+  const out = new Float64Array(n).fill(NaN);
+  for (let i = 0; i < n; i++) {
+    if (!Number.isFinite(values[i])) continue;
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - half); j <= Math.min(n - 1, i + half); j++) {
+      if (Number.isFinite(values[j])) {
+        sum += values[j];
+        count++;
+      }
+    }
+    out[i] = sum / count;
+  }
+  return out;
+}
+
+/** Solve A·x = b in place (small dense system, partial pivoting). */
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let c = 0; c < n; c++) {
+    let p = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(A[r][c]) > Math.abs(A[p][c])) p = r;
+    [A[c], A[p]] = [A[p], A[c]];
+    [b[c], b[p]] = [b[p], b[c]];
+    for (let r = c + 1; r < n; r++) {
+      const f = A[r][c] / A[c][c];
+      for (let k = c; k < n; k++) A[r][k] -= f * A[c][k];
+      b[r] -= f * b[c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = b[r];
+    for (let k = r + 1; k < n; k++) s -= A[r][k] * x[k];
+    x[r] = s / A[r][r];
+  }
+  return x;
+}
+
+/**
+ * Weights that evaluate a least-squares polynomial of `order` through the
+ * samples at offsets -left..right, at offset 0.
+ */
+function sgWeights(left: number, right: number, order: number): number[] {
+  const m = Math.min(order, left + right);
+  const offsets: number[] = [];
+  for (let k = -left; k <= right; k++) offsets.push(k);
+  // Normal equations: (JᵀJ) c = Jᵀ e0 → weights = J (JᵀJ)⁻¹ e0
+  const JtJ = Array.from({ length: m + 1 }, (_, a) =>
+    Array.from({ length: m + 1 }, (_, b) => offsets.reduce((s, k) => s + k ** (a + b), 0))
+  );
+  const e0 = new Array<number>(m + 1).fill(0);
+  e0[0] = 1;
+  const c = solve(JtJ, e0);
+  return offsets.map((k) => c.reduce((s, ci, p) => s + ci * k ** p, 0));
+}
+
+/**
+ * Savitzky–Golay smoothing (local polynomial fit). Near the ends and next to
+ * NaN gaps the window becomes one-sided instead of shrinking the order.
+ */
+export function savitzkyGolay(values: ArrayLike<number>, window: number, order: number): Float64Array {
+  const n = values.length;
+  const half = oddWindow(window, 3) >> 1;
+  const ord = Math.max(0, Math.min(Math.round(order), 2 * half - 1));
+  const out = new Float64Array(n).fill(NaN);
+  const cache = new Map<string, number[]>();
+
+  for (let i = 0; i < n; i++) {
+    if (!Number.isFinite(values[i])) continue;
+    // Extend each side until the full width is reached or a gap / edge stops it
+    let left = 0;
+    let right = 0;
+    while (left + right < 2 * half) {
+      const canL = i - left - 1 >= 0 && Number.isFinite(values[i - left - 1]);
+      const canR = i + right + 1 < n && Number.isFinite(values[i + right + 1]);
+      if (!canL && !canR) break;
+      if (canL && (left <= right || !canR)) left++;
+      else right++;
+    }
+    const key = `${left}:${right}`;
+    let w = cache.get(key);
+    if (!w) {
+      w = sgWeights(left, right, ord);
+      cache.set(key, w);
+    }
+    let s = 0;
+    for (let k = -left; k <= right; k++) s += w[k + left] * values[i + k];
+    out[i] = s;
+  }
+  return out;
+}
+
+/** Run a chain of steps over a trace sampled at `times` (seconds). */
+export function applyPipeline(times: ArrayLike<number>, values: ArrayLike<number>, steps: FilterStep[]): Float64Array {
+  let out = Float64Array.from(values);
+  const fs = 1 / medianInterval(times);
+  for (const step of steps) {
+    switch (step.kind) {
+      case "movingAverage":
+        out = movingAverage(out, step.window);
+        break;
+      case "savitzkyGolay":
+        out = savitzkyGolay(out, step.window, step.order);
+        break;
+      case "butterworth":
+        if (Number.isFinite(fs)) out = butterworthLowpass(out, fs, step.cutoffHz);
+        break;
+      case "derivative":
+        for (let k = 0; k < step.order; k++) out = differentiate(out, times);
+        break;
+    }
+  }
+  return out;
+}
+
+/** Parse stored chains, dropping anything malformed. */
+export function sanitizePipeline(raw: unknown): FilterStep[] {
+  if (!Array.isArray(raw)) return [];
+  const out: FilterStep[] = [];
+  for (const s of raw as Array<Partial<Record<string, unknown>>>) {
+    const num = (v: unknown, fallback: number) => (typeof v === "number" && Number.isFinite(v) && v > 0 ? v : fallback);
+    if (s?.kind === "movingAverage") out.push({ kind: "movingAverage", window: num(s.window, 5) });
+    else if (s?.kind === "savitzkyGolay") out.push({ kind: "savitzkyGolay", window: num(s.window, 11), order: num(s.order, 3) });
+    else if (s?.kind === "butterworth") out.push({ kind: "butterworth", cutoffHz: num(s.cutoffHz, 12) });
+    else if (s?.kind === "derivative") out.push({ kind: "derivative", order: s.order === 2 ? 2 : 1 });
+  }
+  return out;
+}
+
+const CHAINS_KEY = "seq_filters";
+
+/** Processing chains by channel, kept in this browser. */
+export function loadFilterChains(): Record<string, FilterStep[]> {
+  if (typeof localStorage === "undefined") return {};
+  try {
+    const raw = JSON.parse(localStorage.getItem(CHAINS_KEY) ?? "{}") as Record<string, unknown>;
+    const out: Record<string, FilterStep[]> = {};
+    for (const [channel, steps] of Object.entries(raw)) {
+      const chain = sanitizePipeline(steps);
+      if (chain.length) out[channel] = chain;
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+export function saveFilterChains(chains: Record<string, FilterStep[]>) {
+  if (typeof localStorage !== "undefined") localStorage.setItem(CHAINS_KEY, JSON.stringify(chains));
+}
+
+/** Run a chain over a plotted channel (null when there's nothing to do). */
+export function processSeries(trace: ChannelTrace | null, steps: FilterStep[]): Array<{ t: number; value: number }> | null {
+  if (!trace || trace.end <= trace.start || !steps.length) return null;
+  const pts = tracePoints(trace);
+  const out = applyPipeline(
+    pts.map((p) => p.t),
+    pts.map((p) => p.value),
+    steps
+  );
+  return pts.map((p, i) => ({ t: p.t, value: out[i] })).filter((p) => Number.isFinite(p.value));
+}
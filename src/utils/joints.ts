@@ -0,0 +1,239 @@
+// src/utils/joints.ts
+import type { SessionData, SheetData } from "./sessionData";
+
+/**
+ * A tracked 3D point (joint, object or calc channel) assembled from
+ * `<key>_X`, `<key>_Y`, `<key>_Z` columns, e.g. `/Joint/Hip/Right_X|Y|Z`.
+ */
+export type JointTrack = {
+  key: string;       // column prefix, e.g. "/Joint/Hip/Right"
+  label: string;     // "Hip / Right"
+  xyz: Float32Array; // interleaved scene-space positions (Y-up), NaN where missing
+};
+
+export type JointData = {
+  times: Float64Array; // seconds, first frame at 0
+  duration: number;
+  tracks: Record<string, JointTrack>;
+};
+
+/** Bone hierarchy as [parent, child] joint keys. Bones whose ends are missing are skipped. */
+export const SKELETON_BONES: Array<[string, string]> = [
+  // legs
+  ["/Joint/Pelvis", "/Joint/Hip/Right"],
+  ["/Joint/Hip/Right", "/Joint/Knee/Right"],
+  ["/Joint/Knee/Right", "/Joint/Ankle/Right"],
+  ["/Joint/Ankle/Right", "/Joint/Midfoot/Right"],
+  ["/Joint/Pelvis", "/Joint/Hip/Left"],
+  ["/Joint/Hip/Left", "/Joint/Knee/Left"],
+  ["/Joint/Knee/Left", "/Joint/Ankle/Left"],
+  ["/Joint/Ankle/Left", "/Joint/Midfoot/Left"],
+  // spine
+  ["/Joint/Pelvis", "/Joint/Torso"],
+  ["/Joint/Pelvis", "/Joint/Spine/Low"],
+  ["/Joint/Spine/Low", "/Joint/Spine/High"],
+  ["/Joint/Spine/High", "/Joint/Neck"],
+  ["/Joint/Neck", "/Joint/Skullbase"],
+  // arms
+  ["/Joint/Spine/High", "/Joint/Clavicular/Right"],
+  ["/Joint/Clavicular/Right", "/Joint/Shoulder/Right"],
+  ["/Joint/Shoulder/Right", "/Joint/Elbow/Right"],
+  ["/Joint/Elbow/Right", "/Joint/Wrist/Right"],
+  ["/Joint/Spine/High", "/Joint/Clavicular/Left"],
+  ["/Joint/Clavicular/Left", "/Joint/Shoulder/Left"],
+  ["/Joint/Shoulder/Left", "/Joint/Elbow/Left"],
+  ["/Joint/Elbow/Left", "/Joint/Wrist/Left"],
+];
+
+const AXIS_RE = /^(.+)_([XYZ])$/;
+
+const SIDE_PARTS: Array<[RegExp, string]> = [
+  [/^(upleg|upperleg|thigh|hip|femur)$/, "Hip"],
+  [/^(leg|lowerleg|shin|knee|tibia|calf)$/, "Knee"],
+  [/^(foot|ankle)$/, "Ankle"],
+  [/^(toebase|toe|toes|ball)$/, "Midfoot"],
+  [/^(shoulder|clavicle|collar)$/, "Clavicular"],
+  [/^(arm|upperarm|shldr|humerus)$/, "Shoulder"],
+  [/^(forearm|lowerarm|elbow)$/, "Elbow"],
+  [/^(hand|wrist)$/, "Wrist"],
+];
+
+const CENTER_PARTS: Array<[RegExp, string]> = [
+  [/^(hips?|pelvis)$/, "/Joint/Pelvis"],
+  [/^(spine0?|abdomen|lowerback)$/, "/Joint/Spine/Low"],
+  [/^(spine[1-9]|chest\d?|upperchest|thorax)$/, "/Joint/Spine/High"],
+  [/^neck\d?$/, "/Joint/Neck"],
+  [/^head$/, "/Joint/Skullbase"],
+];
+
+/**
+ * Our joint key for a rig bone / BVH joint name (Mixamo, CMU, Blender
+ * `thigh.L` …), or null when it isn't one we draw.
+ */
+export function jointKeyForName(name: string): string | null {
+  let side: "Left" | "Right" | null = null;
+  let rest = name.replace(/^mixamorig\d*:/i, "");
+
+  const suffix = /[_.\s](l|left|r|right)$/i.exec(rest);
+  if (suffix) {
+    side = /^l/i.test(suffix[1]) ? "Left" : "Right";
+    rest = rest.slice(0, suffix.index);
+  } else if (/^(left|right)/i.test(rest)) {
+    side = /^left/i.test(rest) ? "Left" : "Right";
+    rest = rest.slice(side.length);
+  } else if (/^[lr][A-Z_]/.test(rest) || /^[LR]_/.test(rest)) {
+    side = /^l/i.test(rest) ? "Left" : "Right";
+    rest = rest.slice(1);
+  }
+
+  const norm = rest.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const table = side ? SIDE_PARTS : CENTER_PARTS;
+  for (const [re, part] of table) {
+    if (re.test(norm)) return side ? `/Joint/${part}/${side}` : part;
+  }
+  return null;
+}
+
+/** Pick the sheet holding joint-center triplets ("Joint Center Positions" in our exports). */
+export function findJointSheet(sets: SessionData): string | null {
+  const names = Object.keys(sets);
+  const byName = names.find((n) => /joint.*position/i.test(n));
+  if (byName) return byName;
+
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const n of names) {
+    const count = listTripletKeys(sets[n]).length;
+    if (count > bestCount) {
+      bestCount = count;
+      best = n;
+    }
+  }
+  return best;
+}
+
+/** Column prefixes that have all three of `_X`, `_Y`, `_Z`. Duplicate headers ("… (2)") are ignored. */
+export function listTripletKeys(sheet: SheetData): string[] {
+  const axes = new Map<string, Set<string>>();
+  for (const k of Object.keys(sheet.columns)) {
+    const m = AXIS_RE.exec(k);
+    if (!m) continue;
+    const set = axes.get(m[1]) ?? new Set<string>();
+    set.add(m[2]);
+    axes.set(m[1], set);
+  }
+  return Array.from(axes.entries())
+    .filter(([, s]) => s.size === 3)
+    .map(([k]) => k);
+}
+
+/**
+ * Group `_X/_Y/_Z` columns into tracks. Capture space is Z-up (metres);
+ * positions are converted to the scene's Y-up frame: (x, y, z) → (x, z, -y).
+ */
+export function buildJointData(sheet: SheetData): JointData | null {
+  const keys = listTripletKeys(sheet);
+  const n = sheet.t.length;
+  if (!n || !keys.length) return null;
+
+  const times = new Float64Array(n);
+  const t0 = sheet.t.find((t) => Number.isFinite(t)) ?? 0;
+  for (let i = 0; i < n; i++) {
+    const t = sheet.t[i];
+    times[i] = Number.isFinite(t) ? t - t0 : i > 0 ? times[i - 1] : 0;
+  }
+
+  const tracks: Record<string, JointTrack> = {};
+  for (const key of keys) {
+    const xyz = new Float32Array(n * 3);
+    const [cx, cy, cz] = ["X", "Y", "Z"].map((a) => sheet.columns[`${key}_${a}`]);
+    for (let i = 0; i < n; i++) {
+      const x = cx[i];
+      const y = cy[i];
+      const z = cz[i];
+      const ok = Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(z);
+      xyz[i * 3] = ok ? x : NaN;
+      xyz[i * 3 + 1] = ok ? z : NaN;
+      xyz[i * 3 + 2] = ok ? -y : NaN;
+    }
+    tracks[key] = { key, label: jointLabel(key), xyz };
+  }
+
+  return { times, duration: n > 1 ? times[n - 1] : 0, tracks };
+}
+
+export function jointLabel(key: string): string {
+  const parts = key.split("/").filter(Boolean);
+  return parts.slice(parts[0] === "Joint" ? 1 : 0).join(" / ").replace(/_/g, " ");
+}
+
+/** Bones from SKELETON_BONES whose both ends exist in `data`. */
+export function availableBones(data: JointData): Array<[string, string]> {
+  return SKELETON_BONES.filter(([a, b]) => !!data.tracks[a] && !!data.tracks[b]);
+}
+
+/** Index of the last frame with time <= t (clamped to the valid range). */
+export function frameAtTime(times: Float64Array, t: number): number {
+  const n = times.length;
+  if (n === 0 || t <= times[0]) return 0;
+  if (t >= times[n - 1]) return n - 1;
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] <= t) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Linearly interpolated position of `track` at time `t` (seconds).
+ * Writes into `out` and returns false if no finite sample is available.
+ */
+export function sampleTrack(
+  data: JointData,
+  track: JointTrack,
+  t: number,
+  out: [number, number, number]
+): boolean {
+  const { times } = data;
+  const { xyz } = track;
+  const i = frameAtTime(times, t);
+  const j = Math.min(times.length - 1, i + 1);
+  const okI = Number.isFinite(xyz[i * 3]);
+  const okJ = Number.isFinite(xyz[j * 3]);
+
+  if (okI && okJ && j !== i) {
+    const span = times[j] - times[i];
+    const u = span > 0 ? Math.min(1, Math.max(0, (t - times[i]) / span)) : 0;
+    for (let a = 0; a < 3; a++) out[a] = xyz[i * 3 + a] + (xyz[j * 3 + a] - xyz[i * 3 + a]) * u;
+    return true;
+  }
+  const k = okI ? i : okJ ? j : -1;
+  if (k < 0) return false;
+  out[0] = xyz[k * 3];
+  out[1] = xyz[k * 3 + 1];
+  out[2] = xyz[k * 3 + 2];
+  return true;
+}
+
+/** Per-frame speed (m/s) of a track by central differences; NaN where a neighbour is missing. */
+export function trackSpeed(data: JointData, track: JointTrack): Float32Array {
+  const { times } = data;
+  const { xyz } = track;
+  const n = times.length;
+  const out = new Float32Array(n).fill(NaN);
+  for (let i = 0; i < n; i++) {
+    const a = Math.max(0, i - 1);
+    const b = Math.min(n - 1, i + 1);
+    const dt = times[b] - times[a];
+    if (!(dt > 0)) continue;
+    const dx = xyz[b * 3] - xyz[a * 3];
+    const dy = xyz[b * 3 + 1] - xyz[a * 3 + 1];
+    const dz = xyz[b * 3 + 2] - xyz[a * 3 + 2];
+    const d = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (Number.isFinite(d)) out[i] = d / dt;
+  }
+  return out;
+}
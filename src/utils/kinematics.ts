@@ -0,0 +1,216 @@
+// src/utils/kinematics.ts
+import { findJointSheet, listTripletKeys } from "./joints";
+import { makeSheet } from "./sessionData";
+import type { SessionData, SheetData } from "./sessionData";
+
+export type KinematicsOptions = {
+  /** Butterworth low-pass cutoff in Hz; 0 disables filtering */
+  cutoffHz: number;
+};
+
+export const DEFAULT_KINEMATICS: KinematicsOptions = { cutoffHz: 12 };
+
+/** Virtual sheets produced by deriveKinematicSheets */
+export const DERIVED_PREFIX = "Derived · ";
+export const SHEET_LINEAR_VELOCITY = `${DERIVED_PREFIX}Linear Velocity`;
+export const SHEET_LINEAR_ACCELERATION = `${DERIVED_PREFIX}Linear Acceleration`;
+export const SHEET_ANGULAR_VELOCITY = `${DERIVED_PREFIX}Angular Velocity`;
+/** Angles computed from joint centers (see biomechanics.ts) */
+export const SHEET_COMPUTED_ANGLES = `${DERIVED_PREFIX}Computed Angles`;
+
+/* -------------------- signal helpers -------------------- */
+
+/** Median spacing of a time vector (robust to the odd dropped frame). */
+export function medianInterval(times: ArrayLike<number>): number {
+  const d: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const dt = times[i] - times[i - 1];
+    if (Number.isFinite(dt) && dt > 0) d.push(dt);
+  }
+  if (!d.length) return NaN;
+  d.sort((a, b) => a - b);
+  return d[d.length >> 1];
+}
+
+/**
+ * Zero-phase 2nd-order Butterworth low-pass (forward + backward pass, so
+ * effectively 4th order with no lag). NaN gaps split the signal into
+ * independently filtered runs.
+ */
+export function butterworthLowpass(values: ArrayLike<number>, fs: number, cutoffHz: number): Float64Array {
+  const out = Float64Array.from(values);
+  if (!(cutoffHz > 0) || !(fs > 0) || cutoffHz >= fs / 2) return out;
+
+  const k = Math.tan((Math.PI * cutoffHz) / fs);
+  const norm = 1 / (1 + Math.SQRT2 * k + k * k);
+  const b0 = k * k * norm;
+  const b1 = 2 * b0;
+  const b2 = b0;
+  const a1 = 2 * (k * k - 1) * norm;
+  const a2 = (1 - Math.SQRT2 * k + k * k) * norm;
+
+  const pass = (x: Float64Array) => {
+    const y = new Float64Array(x.length);
+    // Start from steady state at the first sample to avoid a step transient.
+    let x1 = x[0], x2 = x[0], y1 = x[0], y2 = x[0];
+    for (let i = 0; i < x.length; i++) {
+      const xi = x[i];
+      const yi = b0 * xi + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      y[i] = yi;
+      x2 = x1; x1 = xi;
+      y2 = y1; y1 = yi;
+    }
+    return y;
+  };
+
+  for (const [s, e] of finiteRuns(out)) {
+    const n = e - s;
+    if (n < 4) continue;
+    // Reflect-pad both ends to tame edge effects.
+    const pad = Math.min(n - 1, Math.max(3, Math.round((3 * fs) / cutoffHz)));
+    const ext = new Float64Array(n + 2 * pad);
+    for (let i = 0; i < pad; i++) {
+      ext[i] = 2 * out[s] - out[s + pad - i];
+      ext[n + pad + i] = 2 * out[e - 1] - out[e - 2 - i];
+    }
+    for (let i = 0; i < n; i++) ext[pad + i] = out[s + i];
+
+    const fwd = pass(ext);
+    fwd.reverse();
+    const bwd = pass(fwd);
+    bwd.reverse();
+    for (let i = 0; i < n; i++) out[s + i] = bwd[pad + i];
+  }
+  return out;
+}
+
+/** First derivative by central differences on a (possibly irregular) time base. */
+export function differentiate(values: ArrayLike<number>, times: ArrayLike<number>): Float64Array {
+  const n = values.length;
+  const out = new Float64Array(n).fill(NaN);
+  for (let i = 0; i < n; i++) {
+    let a = Math.max(0, i - 1);
+    let b = Math.min(n - 1, i + 1);
+    if (!Number.isFinite(values[a])) a = i;
+    if (!Number.isFinite(values[b])) b = i;
+    const dt = times[b] - times[a];
+    if (b === a || !(dt > 0)) continue;
+    const d = (values[b] - values[a]) / dt;
+    if (Number.isFinite(d)) out[i] = d;
+  }
+  return out;
+}
+
+/** Remove ±360° wraps from an angle trace in degrees. */
+export function unwrapDegrees(values: ArrayLike<number>): Float64Array {
+  const out = Float64Array.from(values);
+  let offset = 0;
+  let prev = NaN;
+  for (let i = 0; i < out.length; i++) {
+    const v = out[i];
+    if (!Number.isFinite(v)) continue;
+    if (Number.isFinite(prev)) {
+      const d = v + offset - prev;
+      if (d > 180) offset -= 360;
+      else if (d < -180) offset += 360;
+    }
+    out[i] = v + offset;
+    prev = out[i];
+  }
+  return out;
+}
+
+function finiteRuns(values: ArrayLike<number>): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+  let start = -1;
+  for (let i = 0; i <= values.length; i++) {
+    const ok = i < values.length && Number.isFinite(values[i]);
+    if (ok && start < 0) start = i;
+    else if (!ok && start >= 0) {
+      runs.push([start, i]);
+      start = -1;
+    }
+  }
+  return runs;
+}
+
+/* -------------------- sheet derivation -------------------- */
+
+/** A channel (or `t`) as doubles to compute on; NaN throughout when the sheet doesn't have it. */
+export function column(sheet: SheetData, key: string): Float64Array {
+  if (key === "t") return Float64Array.from(sheet.t);
+  const col = sheet.columns[key];
+  return col ? Float64Array.from(col) : new Float64Array(sheet.t.length).fill(NaN);
+}
+
+function magnitude(x: Float64Array, y: Float64Array, z: Float64Array): Float64Array {
+  const out = new Float64Array(x.length);
+  for (let i = 0; i < x.length; i++) out[i] = Math.sqrt(x[i] * x[i] + y[i] * y[i] + z[i] * z[i]);
+  return out;
+}
+
+/** Filtered linear velocity / acceleration magnitudes for every `_X/_Y/_Z` triplet. */
+export function deriveLinearKinematics(
+  sheet: SheetData,
+  opts: KinematicsOptions = DEFAULT_KINEMATICS
+): { velocity: SheetData; acceleration: SheetData } {
+  const times = column(sheet, "t");
+  const fs = 1 / medianInterval(times);
+  const vel: Record<string, Float64Array> = {};
+  const acc: Record<string, Float64Array> = {};
+
+  for (const key of listTripletKeys(sheet)) {
+    const axes = ["X", "Y", "Z"].map((a) =>
+      butterworthLowpass(column(sheet, `${key}_${a}`), fs, opts.cutoffHz)
+    );
+    const v = axes.map((p) => differentiate(p, times));
+    const a = v.map((c) => differentiate(c, times));
+    vel[`${key}/Velocity`] = magnitude(v[0], v[1], v[2]);
+    acc[`${key}/Acceleration`] = magnitude(a[0], a[1], a[2]);
+  }
+
+  return { velocity: makeSheet(sheet.t, vel), acceleration: makeSheet(sheet.t, acc) };
+}
+
+/** Angular velocity (units/s of the source angles, usually deg/s) of each angle channel. */
+export function deriveAngularVelocity(sheet: SheetData, opts: KinematicsOptions = DEFAULT_KINEMATICS): SheetData {
+  const times = column(sheet, "t");
+  const fs = 1 / medianInterval(times);
+
+  const out: Record<string, Float64Array> = {};
+  for (const key of Object.keys(sheet.columns)) {
+    const angle = butterworthLowpass(unwrapDegrees(column(sheet, key)), fs, opts.cutoffHz);
+    out[`${key}/Angular Velocity`] = differentiate(angle, times);
+  }
+  return makeSheet(sheet.t, out);
+}
+
+/**
+ * Virtual sheets derived from a workbook: linear velocity / acceleration from
+ * the joint-center sheet and angular velocity from "Local Joint Angles" (or
+ * the computed angles when that's all there is). Sheets that would be empty
+ * are omitted.
+ */
+export function deriveKinematicSheets(
+  sets: SessionData,
+  opts: KinematicsOptions = DEFAULT_KINEMATICS
+): SessionData {
+  const out: SessionData = {};
+
+  const jointSheet = findJointSheet(sets);
+  if (jointSheet && listTripletKeys(sets[jointSheet]).length) {
+    const { velocity, acceleration } = deriveLinearKinematics(sets[jointSheet], opts);
+    if (velocity.keys.length) out[SHEET_LINEAR_VELOCITY] = velocity;
+    if (acceleration.keys.length) out[SHEET_LINEAR_ACCELERATION] = acceleration;
+  }
+
+  const angleSheet =
+    Object.keys(sets).find((n) => !n.startsWith(DERIVED_PREFIX) && /joint.*angle/i.test(n)) ??
+    (sets[SHEET_COMPUTED_ANGLES] ? SHEET_COMPUTED_ANGLES : undefined);
+  if (angleSheet && sets[angleSheet].t.length > 2) {
+    const angular = deriveAngularVelocity(sets[angleSheet], opts);
+    if (angular.keys.length) out[SHEET_ANGULAR_VELOCITY] = angular;
+  }
+
+  return out;
+}
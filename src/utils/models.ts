@@ -0,0 +1,133 @@
+// src/utils/models.ts
+import { useMemo } from "react";
+import { useLoader } from "@react-three/fiber";
+import * as THREE from "three";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import type { GLTF } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { DRACOLoader } from "three/examples/jsm/loaders/DRACOLoader.js";
+import { BVHLoader } from "three/examples/jsm/loaders/BVHLoader.js";
+import type { BVH } from "three/examples/jsm/loaders/BVHLoader.js";
+import { MeshoptDecoder } from "three/examples/jsm/libs/meshopt_decoder.module.js";
+import { bvhUnitScale } from "./bvh";
+
+export type ModelFormat = "fbx" | "gltf" | "bvh";
+
+/** A model URL plus how to load it (blob: URLs carry no extension to sniff). */
+export type ModelSource = { url: string; format: ModelFormat };
+
+/** What the viewer needs from any model format: a scene object and its takes. */
+export type ModelAsset = {
+  object: THREE.Object3D;
+  clips: THREE.AnimationClip[];
+  scale: number; // file units → metres
+};
+
+/** Clip within a model, by name or index. */
+export type ClipRef = number | string;
+
+/** File types the model loaders understand (for <input accept>). */
+export const MODEL_FILE_ACCEPT = ".fbx,.glb,.gltf,.bvh";
+
+/** Same decoder build drei's useGLTF defaults to. */
+const DRACO_DECODER_PATH = "https://www.gstatic.com/draco/versioned/decoders/1.5.5/";
+
+const LOADERS = { fbx: FBXLoader, gltf: GLTFLoader, bvh: BVHLoader };
+
+let draco: DRACOLoader | null = null;
+
+/** Resolve a clip reference, falling back to the first clip. */
+export function pickClip(clips: THREE.AnimationClip[], ref?: ClipRef | null): THREE.AnimationClip | null {
+  if (typeof ref === "string") {
+    const named = clips.find((c) => c.name === ref);
+    if (named) return named;
+  }
+  const index = typeof ref === "number" ? ref : Number(ref);
+  return clips[Number.isInteger(index) ? index : 0] ?? clips[0] ?? null;
+}
+
+export function modelFormatFromName(name: string): ModelFormat | null {
+  const ext = name.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  if (ext === "fbx") return "fbx";
+  if (ext === "glb" || ext === "gltf") return "gltf";
+  if (ext === "bvh") return "bvh";
+  return null;
+}
+
+function configureLoader(loader: FBXLoader | GLTFLoader | BVHLoader) {
+  if (!(loader instanceof GLTFLoader)) return;
+  if (!draco) {
+    draco = new DRACOLoader();
+    draco.setDecoderPath(DRACO_DECODER_PATH);
+  }
+  loader.setDRACOLoader(draco);
+  loader.setMeshoptDecoder(MeshoptDecoder);
+}
+
+/* BVH has no mesh: bones get a plain capsule mannequin. Cached per loaded
+   result because the skeleton's bones can only have one parent. */
+const mannequins = new WeakMap<BVH, ModelAsset>();
+
+function buildMannequin(bvh: BVH): ModelAsset {
+  const cached = mannequins.get(bvh);
+  if (cached) return cached;
+
+  const root = new THREE.Group();
+  root.add(bvh.skeleton.bones[0]);
+  root.updateMatrixWorld(true);
+
+  const rest = new THREE.Box3();
+  for (const bone of bvh.skeleton.bones) rest.expandByPoint(bone.getWorldPosition(new THREE.Vector3()));
+  const height = rest.max.y - rest.min.y || 1;
+  const radius = height * 0.022;
+
+  const material = new THREE.MeshStandardMaterial({ color: "#c8ccd4", roughness: 0.9, metalness: 0.05 });
+  const joint = new THREE.SphereGeometry(radius * 1.15, 16, 12);
+  const head = new THREE.SphereGeometry(radius * 3.2, 24, 16);
+  const up = new THREE.Vector3(0, 1, 0);
+
+  for (const bone of bvh.skeleton.bones) {
+    const children = bone.children.filter((c): c is THREE.Bone => (c as THREE.Bone).isBone);
+    const isHead = /head/i.test(bone.name);
+    bone.add(new THREE.Mesh(isHead ? head : joint, material));
+    if (isHead) continue;
+
+    for (const child of children) {
+      const len = child.position.length();
+      if (len < radius) continue;
+      const limb = new THREE.Mesh(new THREE.CapsuleGeometry(radius, Math.max(0, len - 2 * radius), 4, 12), material);
+      limb.position.copy(child.position).multiplyScalar(0.5);
+      limb.quaternion.setFromUnitVectors(up, child.position.clone().normalize());
+      bone.add(limb);
+    }
+  }
+  root.traverse((obj) => {
+    const mesh = obj as THREE.Mesh;
+    if (mesh.isMesh) mesh.castShadow = mesh.receiveShadow = true;
+  });
+
+  const asset = { object: root, clips: [bvh.clip], scale: bvhUnitScale(height) };
+  mannequins.set(bvh, asset);
+  return asset;
+}
+
+/**
+ * Load a capture model of any supported format. Results are cached per URL
+ * (like drei's useFBX), so callers that need an independent copy must clone.
+ */
+export function useModelAsset(source: ModelSource): ModelAsset {
+  const loaded = useLoader(LOADERS[source.format] as typeof FBXLoader, source.url, configureLoader) as
+    | THREE.Group
+    | GLTF
+    | BVH;
+
+  return useMemo<ModelAsset>(() => {
+    if (source.format === "bvh") return buildMannequin(loaded as BVH);
+    if (source.format === "gltf") {
+      const gltf = loaded as GLTF;
+      return { object: gltf.scene, clips: gltf.animations, scale: 1 };
+    }
+    const fbx = loaded as THREE.Group;
+    return { object: fbx, clips: fbx.animations ?? [], scale: 0.01 };
+  }, [loaded, source.format]);
+}
@@ -0,0 +1,21 @@
+// src/utils/parse.worker.ts
+import { parseDataArrayBuffer } from "./excel";
+import { sessionBuffers } from "./sessionData";
+import type { ParseRequest, ParseResponse } from "./dataLoader";
+
+/*
+ * Parses data files (workbooks, CSV, C3D, BVH) off the main thread so a big
+ * workbook doesn't stall playback. The columnar session comes back with its
+ * typed arrays transferred rather than copied. Started by dataLoader.ts.
+ */
+
+self.onmessage = (e: MessageEvent<ParseRequest>) => {
+  const { id, buf, fileName, fpsGuess } = e.data;
+  let msg: ParseResponse;
+  try {
+    msg = { id, data: parseDataArrayBuffer(buf, fileName, fpsGuess) };
+  } catch (err) {
+    msg = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(msg, { transfer: "data" in msg ? sessionBuffers(msg.data) : [] });
+};
@@ -0,0 +1,233 @@
+// src/utils/report.ts
+import type { SequenceResult } from "./sequence";
+import type { SwingEvent } from "./events";
+import { seriesColor } from "./colors";
+
+type SeriesPoint = { t?: number; value: number };
+
+export type ReportChannel = {
+  key: string;
+  label: string;
+  data: SeriesPoint[];
+};
+
+export type ReportStill = { label: string; t: number; dataUrl: string };
+
+export type ReportInput = {
+  player: string;
+  session: string;
+  sheet: string | null;
+  generatedAt: Date;
+  notes?: string;
+  stills: ReportStill[];
+  channels: ReportChannel[];
+  sequence: SequenceResult | null;
+  events: SwingEvent[];
+};
+
+export type ChannelSummary = {
+  label: string;
+  max: number;
+  tMax: number;
+  min: number;
+  tMin: number;
+  mean: number;
+};
+
+export function summarizeChannel(ch: ReportChannel): ChannelSummary | null {
+  let max = -Infinity, min = Infinity, tMax = 0, tMin = 0, sum = 0, n = 0;
+  for (const p of ch.data) {
+    if (!Number.isFinite(p.value)) continue;
+    if (p.value > max) { max = p.value; tMax = p.t ?? 0; }
+    if (p.value < min) { min = p.value; tMin = p.t ?? 0; }
+    sum += p.value;
+    n++;
+  }
+  return n ? { label: ch.label, max, tMax, min, tMin, mean: sum / n } : null;
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const fmt = (v: number, d = 2) => (Number.isFinite(v) ? v.toFixed(d) : "—");
+
+/**
+ * Static, print-friendly line chart (light theme) for one channel, with the
+ * swing events as dashed verticals. Mirrors SimpleGraph's layout without any
+ * interaction.
+ */
+export function renderStaticGraphSvg(
+  ch: ReportChannel,
+  events: SwingEvent[],
+  color: string,
+  width = 720,
+  height = 200
+): string {
+  const m = { top: 16, right: 16, bottom: 28, left: 56 };
+  const iw = width - m.left - m.right;
+  const ih = height - m.top - m.bottom;
+  const pts = ch.data.filter((p) => Number.isFinite(p.value));
+  if (!pts.length) return "";
+
+  const tMax = Math.max(1e-6, pts[pts.length - 1].t ?? 0);
+  let yMin = Infinity, yMax = -Infinity;
+  for (const p of pts) {
+    yMin = Math.min(yMin, p.value);
+    yMax = Math.max(yMax, p.value);
+  }
+  const pad = yMax > yMin ? (yMax - yMin) * 0.08 : Math.abs(yMin) * 0.05 || 0.5;
+  yMin -= pad;
+  yMax += pad;
+
+  const x = (t: number) => m.left + (t / tMax) * iw;
+  const y = (v: number) => m.top + (1 - (v - yMin) / (yMax - yMin)) * ih;
+
+  // Decimate to ~2 points per pixel; print doesn't need more
+  const stride = Math.max(1, Math.floor(pts.length / (iw * 2)));
+  let d = "";
+  for (let i = 0; i < pts.length; i += stride) {
+    d += `${i === 0 ? "M" : "L"}${x(pts[i].t ?? 0).toFixed(1)} ${y(pts[i].value).toFixed(1)}`;
+  }
+
+  const parts: string[] = [];
+  for (let i = 0; i <= 4; i++) {
+    const v = yMin + (i / 4) * (yMax - yMin);
+    const yy = y(v).toFixed(1);
+    parts.push(
+      `<line x1="${m.left}" x2="${width - m.right}" y1="${yy}" y2="${yy}" stroke="#e3e7ee"/>`,
+      `<text x="${m.left - 6}" y="${(+yy + 3).toFixed(1)}" text-anchor="end">${fmt(v)}</text>`
+    );
+  }
+  for (let i = 0; i <= 5; i++) {
+    const t = (i / 5) * tMax;
+    parts.push(`<text x="${x(t).toFixed(1)}" y="${height - 8}" text-anchor="middle">${fmt(t)}s</text>`);
+  }
+  for (const ev of events) {
+    if (ev.t < 0 || ev.t > tMax) continue;
+    const xx = x(ev.t).toFixed(1);
+    parts.push(
+      `<line x1="${xx}" x2="${xx}" y1="${m.top}" y2="${height - m.bottom}" stroke="${ev.color}" stroke-dasharray="3 3"/>`,
+      `<text x="${xx}" y="${m.top - 4}" text-anchor="middle" fill="${ev.color}">${escapeHtml(ev.label)}</text>`
+    );
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" ` +
+    `font-family="system-ui, sans-serif" font-size="10" fill="#5b6472">` +
+    parts.join("") +
+    `<path d="${d}" fill="none" stroke="${color}" stroke-width="1.6" stroke-linejoin="round"/>` +
+    `</svg>`
+  );
+}
+
+/** Self-contained HTML report (inline images and SVG); prints cleanly to PDF. */
+export function buildReportHtml(input: ReportInput): string {
+  const { player, session, sheet, generatedAt, notes, stills, channels, sequence, events } = input;
+  const title = `${player} · ${session}`;
+  const summaries = channels.map(summarizeChannel);
+
+  const stillsHtml = stills.length
+    ? `<section><h2>Key positions</h2><div class="stills">${stills
+        .map(
+          (s) =>
+            `<figure><img src="${s.dataUrl}" alt="${escapeHtml(s.label)}"/>` +
+            `<figcaption>${escapeHtml(s.label)} · ${fmt(s.t, 3)}s</figcaption></figure>`
+        )
+        .join("")}</div></section>`
+    : "";
+
+  const eventsHtml = events.length
+    ? `<section><h2>Swing events</h2><table><thead><tr><th>Event</th><th>Time (s)</th><th>Δ to contact (ms)</th></tr></thead><tbody>${(() => {
+        const contact = events.find((e) => e.id === "contact");
+        return events
+          .map(
+            (e) =>
+              `<tr><td><span class="dot" style="background:${e.color}"></span>${escapeHtml(e.label)}</td>` +
+              `<td>${fmt(e.t, 3)}</td><td>${contact ? Math.round((e.t - contact.t) * 1000) : "—"}</td></tr>`
+          )
+          .join("");
+      })()}</tbody></table></section>`
+    : "";
+
+  const sequenceHtml = sequence
+    ? `<section><h2>Kinematic sequence <span class="pill ${sequence.inOrder ? "ok" : "bad"}">${
+        sequence.inOrder ? "In order" : "Out of order"
+      }</span></h2><table><thead><tr><th>Segment</th><th>Peak</th><th>Time (s)</th><th>Gap (ms)</th></tr></thead><tbody>${sequence.segments
+        .map((s) => {
+          const gap = sequence.gaps.find((g) => g.to === s.id);
+          return (
+            `<tr><td><span class="dot" style="background:${s.color}"></span>${escapeHtml(s.label)}</td>` +
+            `<td>${fmt(s.peak, s.unit === "m/s" ? 1 : 0)} ${s.unit}</td><td>${fmt(s.t, 3)}</td>` +
+            `<td>${gap ? `${gap.dt >= 0 ? "+" : ""}${Math.round(gap.dt * 1000)}` : "—"}</td></tr>`
+          );
+        })
+        .join("")}</tbody></table></section>`
+    : "";
+
+  const metricsHtml = summaries.some(Boolean)
+    ? `<section><h2>Channel summary${sheet ? ` <small>${escapeHtml(sheet)}</small>` : ""}</h2><table><thead><tr>` +
+      `<th>Channel</th><th>Max</th><th>@ (s)</th><th>Min</th><th>@ (s)</th><th>Mean</th></tr></thead><tbody>${summaries
+        .filter((s): s is ChannelSummary => !!s)
+        .map(
+          (s) =>
+            `<tr><td>${escapeHtml(s.label)}</td><td>${fmt(s.max)}</td><td>${fmt(s.tMax, 3)}</td>` +
+            `<td>${fmt(s.min)}</td><td>${fmt(s.tMin, 3)}</td><td>${fmt(s.mean)}</td></tr>`
+        )
+        .join("")}</tbody></table></section>`
+    : "";
+
+  const graphsHtml = channels.length
+    ? `<section><h2>Signals</h2>${channels
+        .map((ch, i) => `<figure class="graph"><figcaption>${escapeHtml(ch.label)}</figcaption>${renderStaticGraphSvg(ch, events, seriesColor(i))}</figure>`)
+        .join("")}</section>`
+    : "";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeHtml(title)} — Session report</title>
+<style>
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #1b2129; margin: 32px auto; max-width: 960px; padding: 0 24px; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #e5812b; padding-bottom: 8px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 15px; margin: 28px 0 10px; }
+  h2 small { color: #6b7480; font-weight: 400; }
+  .meta { color: #6b7480; font-size: 12px; }
+  .notes { white-space: pre-wrap; background: #f6f7f9; border-radius: 8px; padding: 10px 12px; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { text-align: right; padding: 5px 8px; border-bottom: 1px solid #e8ebf0; }
+  th:first-child, td:first-child { text-align: left; }
+  th { color: #6b7480; font-weight: 500; }
+  .dot { display: inline-block; width: 8px; height: 8px; border-radius: 50%; margin-right: 6px; }
+  .pill { font-size: 11px; padding: 2px 8px; border-radius: 999px; border: 1px solid; vertical-align: middle; }
+  .pill.ok { color: #4d7c0f; border-color: #a3e635; }
+  .pill.bad { color: #b91c1c; border-color: #fca5a5; }
+  .stills { display: grid; grid-template-columns: repeat(auto-fill, minmax(200px, 1fr)); gap: 10px; }
+  figure { margin: 0; }
+  .stills img { width: 100%; border-radius: 6px; display: block; background: #0b0e12; }
+  figcaption { font-size: 11px; color: #6b7480; margin-top: 4px; }
+  .graph { margin-bottom: 14px; break-inside: avoid; }
+  .graph figcaption { font-size: 12px; color: #1b2129; font-weight: 600; margin: 0 0 2px; }
+  .print { position: fixed; top: 16px; right: 16px; }
+  section { break-inside: avoid-page; }
+  @media print { .print { display: none; } body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <span class="meta">Generated ${escapeHtml(generatedAt.toLocaleString())}</span>
+</header>
+${notes?.trim() ? `<section><h2>Notes</h2><div class="notes">${escapeHtml(notes.trim())}</div></section>` : ""}
+${stillsHtml}
+${sequenceHtml}
+${eventsHtml}
+${metricsHtml}
+${graphsHtml}
+</body>
+</html>
+`;
+}
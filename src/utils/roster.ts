@@ -0,0 +1,56 @@
+// src/utils/roster.ts
+
+/** One player in `public/data/players.json` (written by scripts/gen-manifests.mjs) */
+export type RosterEntry = {
+  player: string;
+  defaultSession?: string | null;
+  team?: string;
+  position?: string;
+  bats?: string;
+  throws?: string;
+  sessionCount?: number;
+  /** YYYY-MM-DD */
+  lastSession?: string | null;
+  sessions?: string[];
+};
+
+const BASE_URL: string = import.meta.env.BASE_URL;
+
+/** The generated roster, or null when there isn't one (older deploys, dev without gen:manifests). */
+export async function fetchRoster(): Promise<RosterEntry[] | null> {
+  const url = `${(BASE_URL || "/").replace(/\/+$/, "")}/data/players.json?ts=${Date.now()}`;
+  try {
+    const r = await fetch(url);
+    if (!r.ok) return null;
+    const json: unknown = await r.json();
+    if (!Array.isArray(json)) return null;
+    return json
+      .map((e): RosterEntry | null => {
+        // Older files only have { player, defaultSession }; a plain list of names works too
+        if (typeof e === "string") return { player: e };
+        if (!e || typeof e.player !== "string") return null;
+        return e as RosterEntry;
+      })
+      .filter((e): e is RosterEntry => !!e)
+      .sort((a, b) => a.player.localeCompare(b.player));
+  } catch (err) {
+    console.warn("Roster load failed:", err);
+    return null;
+  }
+}
+
+/** "NYM · 1B · B/T R/R" (empty when there's no metadata). */
+export function rosterMeta(e: RosterEntry): string {
+  const bt = e.bats || e.throws ? `B/T ${e.bats ?? "?"}/${e.throws ?? "?"}` : "";
+  return [e.team, e.position, bt].filter(Boolean).join(" · ");
+}
+
+/** Players matching a search over name, team and position. */
+export function searchRoster(roster: RosterEntry[], query: string): RosterEntry[] {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return roster;
+  return roster.filter((e) => {
+    const hay = [e.player, e.team, e.position].filter(Boolean).join(" ").toLowerCase();
+    return words.every((w) => hay.includes(w));
+  });
+}
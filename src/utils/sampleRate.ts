@@ -0,0 +1,135 @@
+// src/utils/sampleRate.ts
+import type * as THREE from "three";
+import type { SessionData } from "./sessionData";
+
+/** Used until a session tells us otherwise (our original capture rate). */
+export const DEFAULT_FPS = 120;
+
+/** Rates capture systems actually use; estimates within 1% snap to these. */
+const COMMON_RATES = [24, 25, 30, 48, 50, 60, 100, 120, 150, 180, 200, 240, 250, 300, 360, 400, 480, 500, 960, 1000];
+
+/** An interval this far off the median counts as a glitch (dropped / doubled frame). */
+const JITTER_TOLERANCE = 0.25;
+/** More than this share of glitchy intervals = irregular sampling. */
+const IRREGULAR_SHARE = 0.02;
+
+export type RateEstimate = {
+  hz: number;
+  /** Share of intervals that stray from the median spacing */
+  jitter: number;
+  irregular: boolean;
+};
+
+export type SessionRate = {
+  fps: number;
+  source: "model" | "data" | "default";
+  /** Human-readable problems (sheets disagree, irregular spacing, …) */
+  warnings: string[];
+};
+
+function snapRate(hz: number): number {
+  const near = COMMON_RATES.find((r) => Math.abs(hz - r) / r < 0.01);
+  return near ?? Math.round(hz * 100) / 100;
+}
+
+/** Sample rate from sorted sample times (median spacing), or null if too few samples. */
+export function estimateRate(times: ArrayLike<number>): RateEstimate | null {
+  const dts: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const dt = times[i] - times[i - 1];
+    if (Number.isFinite(dt) && dt > 0) dts.push(dt);
+  }
+  if (dts.length < 2) return null;
+
+  const sorted = [...dts].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  if (!(median > 0)) return null;
+
+  const off = dts.filter((dt) => Math.abs(dt - median) > median * JITTER_TOLERANCE).length;
+  const jitter = off / dts.length;
+  return { hz: snapRate(1 / median), jitter, irregular: jitter > IRREGULAR_SHARE };
+}
+
+/** Rate of every sheet (by its time vector); sheets without usable time are left out. */
+export function sheetRates(sets: SessionData, skip?: (name: string) => boolean): Record<string, RateEstimate> {
+  const out: Record<string, RateEstimate> = {};
+  for (const [name, sheet] of Object.entries(sets)) {
+    if (skip?.(name)) continue;
+    const est = estimateRate(sheet.t);
+    if (est) out[name] = est;
+  }
+  return out;
+}
+
+/** Keyframe rate of an animation clip, from its densest track. */
+export function clipRate(clip: THREE.AnimationClip): RateEstimate | null {
+  let densest: THREE.KeyframeTrack | null = null;
+  for (const track of clip.tracks) {
+    if (!densest || track.times.length > densest.times.length) densest = track;
+  }
+  return densest ? estimateRate(densest.times) : null;
+}
+
+/**
+ * Pick the session's frame rate from the model's keyframes and the (most
+ * common) sheet rate, else `fallback`; disagreements come back as warnings.
+ */
+export function resolveSessionRate(
+  sheets: Record<string, RateEstimate>,
+  model: RateEstimate | null,
+  fallback = DEFAULT_FPS
+): SessionRate {
+  const warnings: string[] = [];
+
+  const byRate = new Map<number, string[]>();
+  for (const [name, est] of Object.entries(sheets)) {
+    byRate.set(est.hz, [...(byRate.get(est.hz) ?? []), name]);
+    if (est.irregular) {
+      warnings.push(`"${name}" has irregular sampling (${Math.round(est.jitter * 100)}% of intervals off).`);
+    }
+  }
+  const ranked = [...byRate.entries()].sort((a, b) => b[1].length - a[1].length);
+  const dataHz = ranked[0]?.[0] ?? null;
+  if (ranked.length > 1) {
+    warnings.push(`Sheets disagree on sample rate: ${ranked.map(([hz, names]) => `${hz} Hz (${names.join(", ")})`).join("; ")}.`);
+  }
+
+  if (model?.irregular) warnings.push(`Model keyframes are irregular (${Math.round(model.jitter * 100)}% of intervals off).`);
+  if (model && dataHz != null && model.hz !== dataHz) {
+    warnings.push(`Model keyframes are at ${model.hz} fps but the data is at ${dataHz} Hz.`);
+  }
+
+  // Step at the finer of the two so every model key and every data sample is reachable
+  if (model && (dataHz == null || model.hz >= dataHz)) return { fps: model.hz, source: "model", warnings };
+  if (dataHz != null) return { fps: dataHz, source: "data", warnings };
+  return { fps: fallback, source: "default", warnings };
+}
+
+const STORED_RATES_KEY = "seq_fps";
+
+/** Frame rate last detected per `player/session`; times frame-indexed sheets on the next load */
+export function storedRate(key: string, fallback = DEFAULT_FPS): number {
+  if (typeof localStorage === "undefined") return fallback;
+  try {
+    const v = Number((JSON.parse(localStorage.getItem(STORED_RATES_KEY) ?? "{}") as Record<string, number>)[key]);
+    return v > 0 ? v : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function storeRate(key: string, fps: number) {
+  if (typeof localStorage === "undefined") return;
+  let map: Record<string, number> = {};
+  try {
+    map = (JSON.parse(localStorage.getItem(STORED_RATES_KEY) ?? "{}") as Record<string, number> | null) ?? {};
+  } catch {
+    // unreadable entry: start the map over
+  }
+  if (map[key] === fps) return;
+  try {
+    localStorage.setItem(STORED_RATES_KEY, JSON.stringify({ ...map, [key]: fps }));
+  } catch {
+    // storage full or blocked: the rate is just detected again next load
+  }
+}
@@ -0,0 +1,209 @@
+// src/utils/sequence.ts
+import type { JointData, JointTrack } from "./joints";
+import { DEFAULT_KINEMATICS, butterworthLowpass, differentiate, medianInterval } from "./kinematics";
+import type { KinematicsOptions } from "./kinematics";
+
+export type Side = "Left" | "Right";
+export type SegmentId = "pelvis" | "torso" | "arm" | "hand";
+
+export type SegmentPeak = {
+  id: SegmentId;
+  label: string;
+  unit: string;  // "deg/s" or "m/s"
+  peak: number;
+  t: number;     // data time (s) of the peak
+  frame: number;
+  color: string;
+};
+
+export type SequenceGap = { from: SegmentId; to: SegmentId; dt: number };
+
+export type SequenceResult = {
+  lead: Side;
+  segments: SegmentPeak[];
+  gaps: SequenceGap[];
+  /** true when peak times rise pelvis → torso → arm → hand */
+  inOrder: boolean;
+  /** filtered speed traces, aligned with JointData.times */
+  traces: Record<SegmentId, Float64Array>;
+};
+
+export const SEGMENT_COLORS: Record<SegmentId, string> = {
+  pelvis: "#5aa9ff",
+  torso: "#a3e635",
+  arm: "#facc15",
+  hand: "#e5812b",
+};
+
+const ORDER: SegmentId[] = ["pelvis", "torso", "arm", "hand"];
+
+/** Search window around the hand peak for the proximal segments (s). */
+const WINDOW_BEFORE = 0.6;
+const WINDOW_AFTER = 0.15;
+
+/* -------------------- traces -------------------- */
+
+/** Angular speed (deg/s) of the horizontal line a→b about the vertical axis. */
+function yawSpeed(data: JointData, a: JointTrack, b: JointTrack, fs: number, cutoffHz: number) {
+  const n = data.times.length;
+  const yaw = new Float64Array(n);
+  let offset = 0;
+  let prev = NaN;
+  for (let i = 0; i < n; i++) {
+    const dx = b.xyz[i * 3] - a.xyz[i * 3];
+    const dz = b.xyz[i * 3 + 2] - a.xyz[i * 3 + 2];
+    let ang = (Math.atan2(dz, dx) * 180) / Math.PI;
+    if (!Number.isFinite(ang)) {
+      yaw[i] = NaN;
+      continue;
+    }
+    if (Number.isFinite(prev)) {
+      const d = ang + offset - prev;
+      if (d > 180) offset -= 360;
+      else if (d < -180) offset += 360;
+    }
+    ang += offset;
+    yaw[i] = ang;
+    prev = ang;
+  }
+  const w = differentiate(butterworthLowpass(yaw, fs, cutoffHz), data.times);
+  return w.map(Math.abs);
+}
+
+/** Angular speed (deg/s) of the 3D segment a→b (e.g. upper arm). */
+function segmentAngularSpeed(data: JointData, a: JointTrack, b: JointTrack, fs: number, cutoffHz: number) {
+  const n = data.times.length;
+  const comp = [0, 1, 2].map((c) => {
+    const v = new Float64Array(n);
+    for (let i = 0; i < n; i++) v[i] = b.xyz[i * 3 + c] - a.xyz[i * 3 + c];
+    return butterworthLowpass(v, fs, cutoffHz);
+  });
+  const out = new Float64Array(n).fill(NaN);
+  for (let i = 1; i < n - 1; i++) {
+    const u = [comp[0][i - 1], comp[1][i - 1], comp[2][i - 1]];
+    const v = [comp[0][i + 1], comp[1][i + 1], comp[2][i + 1]];
+    const lu = Math.hypot(u[0], u[1], u[2]);
+    const lv = Math.hypot(v[0], v[1], v[2]);
+    const dt = data.times[i + 1] - data.times[i - 1];
+    if (!(lu > 0) || !(lv > 0) || !(dt > 0)) continue;
+    const cos = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / (lu * lv);
+    out[i] = (Math.acos(Math.min(1, Math.max(-1, cos))) * 180) / Math.PI / dt;
+  }
+  return out;
+}
+
+/** Filtered linear speed (m/s) of a point. */
+export function pointSpeed(data: JointData, p: JointTrack, fs: number, cutoffHz: number) {
+  const n = data.times.length;
+  const vel = [0, 1, 2].map((c) => {
+    const v = new Float64Array(n);
+    for (let i = 0; i < n; i++) v[i] = p.xyz[i * 3 + c];
+    return differentiate(butterworthLowpass(v, fs, cutoffHz), data.times);
+  });
+  const out = new Float64Array(n);
+  for (let i = 0; i < n; i++) out[i] = Math.hypot(vel[0][i], vel[1][i], vel[2][i]);
+  return out;
+}
+
+/* -------------------- analysis -------------------- */
+
+/** Stride (lead) side = the ankle that travels furthest horizontally. */
+export function detectLeadSide(data: JointData): Side {
+  const travel = (key: string) => {
+    const tr = data.tracks[key];
+    if (!tr) return 0;
+    let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+    for (let i = 0; i < data.times.length; i++) {
+      const x = tr.xyz[i * 3];
+      const z = tr.xyz[i * 3 + 2];
+      if (!Number.isFinite(x) || !Number.isFinite(z)) continue;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minZ = Math.min(minZ, z); maxZ = Math.max(maxZ, z);
+    }
+    return Number.isFinite(minX) ? Math.hypot(maxX - minX, maxZ - minZ) : 0;
+  };
+  return travel("/Joint/Ankle/Left") >= travel("/Joint/Ankle/Right") ? "Left" : "Right";
+}
+
+function argmax(values: ArrayLike<number>, from = 0, to = values.length) {
+  let best = -1;
+  let bestV = -Infinity;
+  for (let i = Math.max(0, from); i < Math.min(values.length, to); i++) {
+    const v = values[i];
+    if (Number.isFinite(v) && v > bestV) {
+      bestV = v;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Kinematic sequence of a swing: peak pelvis / torso rotation speed, lead
+ * upper-arm angular speed and lead-hand linear speed, their timing gaps and
+ * whether the proximal-to-distal order holds. Returns null when the joints
+ * needed are missing.
+ */
+export function analyzeSequence(
+  data: JointData,
+  opts: KinematicsOptions & { lead?: Side } = DEFAULT_KINEMATICS
+): SequenceResult | null {
+  const tr = data.tracks;
+  const lead = opts.lead ?? detectLeadSide(data);
+  const need = [
+    "/Joint/Hip/Left",
+    "/Joint/Hip/Right",
+    "/Joint/Shoulder/Left",
+    "/Joint/Shoulder/Right",
+    `/Joint/Elbow/${lead}`,
+    `/Joint/Wrist/${lead}`,
+  ];
+  if (need.some((k) => !tr[k]) || data.times.length < 8) return null;
+
+  const fs = 1 / medianInterval(data.times);
+  const cutoff = opts.cutoffHz;
+  const traces: Record<SegmentId, Float64Array> = {
+    pelvis: yawSpeed(data, tr["/Joint/Hip/Right"], tr["/Joint/Hip/Left"], fs, cutoff),
+    torso: yawSpeed(data, tr["/Joint/Shoulder/Right"], tr["/Joint/Shoulder/Left"], fs, cutoff),
+    arm: segmentAngularSpeed(data, tr[`/Joint/Shoulder/${lead}`], tr[`/Joint/Elbow/${lead}`], fs, cutoff),
+    hand: pointSpeed(data, tr[`/Joint/Wrist/${lead}`], fs, cutoff),
+  };
+
+  const handIdx = argmax(traces.hand);
+  if (handIdx < 0) return null;
+  const tHand = data.times[handIdx];
+  let lo = handIdx;
+  while (lo > 0 && data.times[lo - 1] >= tHand - WINDOW_BEFORE) lo--;
+  let hi = handIdx;
+  while (hi < data.times.length - 1 && data.times[hi + 1] <= tHand + WINDOW_AFTER) hi++;
+
+  const labels: Record<SegmentId, string> = {
+    pelvis: "Pelvis",
+    torso: "Torso",
+    arm: `Lead arm (${lead[0]})`,
+    hand: `Lead hand (${lead[0]})`,
+  };
+
+  const segments: SegmentPeak[] = [];
+  for (const id of ORDER) {
+    const idx = id === "hand" ? handIdx : argmax(traces[id], lo, hi + 1);
+    if (idx < 0) continue;
+    segments.push({
+      id,
+      label: labels[id],
+      unit: id === "hand" ? "m/s" : "deg/s",
+      peak: traces[id][idx],
+      t: data.times[idx],
+      frame: idx,
+      color: SEGMENT_COLORS[id],
+    });
+  }
+
+  const gaps: SequenceGap[] = [];
+  for (let i = 1; i < segments.length; i++) {
+    gaps.push({ from: segments[i - 1].id, to: segments[i].id, dt: segments[i].t - segments[i - 1].t });
+  }
+  const inOrder = segments.length === ORDER.length && gaps.every((g) => g.dt >= 0);
+
+  return { lead, segments, gaps, inOrder, traces };
+}
@@ -0,0 +1,181 @@
+// src/utils/sessionData.ts
+import type { Row, RowsBySheet } from "./excel";
+
+/*
+ * Columnar session model. Each sheet is one time vector shared by all of its
+ * channels plus a Float32Array per channel (NaN where a frame has no sample),
+ * with per-channel metadata worked out once when the sheet is built. Listing
+ * channels and plotting one are lookups, never a rescan of the frames.
+ *
+ * Rows (`Record<string, number>` per frame) remain only the JSON import /
+ * export format; see sheetFromRows and sheetToRows.
+ */
+
+export type ChannelMeta = {
+  key: string;
+  /** Finite samples */
+  count: number;
+  /** First / last frame with a finite sample (and a finite time) */
+  first: number;
+  last: number;
+  min: number;
+  max: number;
+};
+
+export type SheetData = {
+  /** Seconds, one entry per frame */
+  t: Float64Array;
+  columns: Record<string, Float32Array>;
+  channels: Record<string, ChannelMeta>;
+  /** Plottable channel keys, sorted */
+  keys: string[];
+};
+
+/** Sheet name → sheet, in workbook order (the columnar RowsBySheet). */
+export type SessionData = Record<string, SheetData>;
+
+/**
+ * One channel ready to draw without copying: samples `start` ≤ i < `end` of
+ * `v` at times `t[i] - t0`, NaN values being gaps. Points from other sources
+ * (filters, overlays) are turned into the same shape by pointsTrace.
+ */
+export type ChannelTrace = {
+  t: ArrayLike<number>;
+  v: ArrayLike<number>;
+  t0: number;
+  start: number;
+  end: number;
+};
+
+/** Time-like columns that aren't offered as metrics (JSON imports can carry them) */
+const TIME_KEYS = new Set(["t", "time", "frame"]);
+
+/**
+ * Build a sheet from a time vector and channel columns. Columns without a
+ * single finite sample are dropped, as a key missing from every row would be.
+ */
+export function makeSheet(t: Float64Array, columns: Record<string, ArrayLike<number>>): SheetData {
+  const out: SheetData = { t, columns: {}, channels: {}, keys: [] };
+  for (const [key, values] of Object.entries(columns)) {
+    const col = values instanceof Float32Array ? values : Float32Array.from(values);
+    let count = 0;
+    let first = -1;
+    let last = -1;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < col.length; i++) {
+      const v = col[i];
+      if (!Number.isFinite(v) || !Number.isFinite(t[i])) continue;
+      count++;
+      if (first < 0) first = i;
+      last = i;
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    if (!count) continue;
+    out.columns[key] = col;
+    out.channels[key] = { key, count, first, last, min, max };
+  }
+  out.keys = Object.keys(out.channels)
+    .filter((k) => !TIME_KEYS.has(k))
+    .sort();
+  return out;
+}
+
+/**
+ * Rows → sheet. Time comes from `t`, else `time`, else the row index spread
+ * over 0…1 (how plain JSON sample arrays have always been plotted).
+ */
+export function sheetFromRows(rows: Array<Record<string, unknown>>): SheetData {
+  const n = rows.length;
+  const tKey = rows.some((r) => typeof r?.t === "number") ? "t" : rows.some((r) => typeof r?.time === "number") ? "time" : null;
+
+  const t = new Float64Array(n);
+  const columns: Record<string, Float32Array> = {};
+  for (let i = 0; i < n; i++) {
+    const r = rows[i] ?? {};
+    t[i] = tKey ? (typeof r[tKey] === "number" ? (r[tKey] as number) : NaN) : n > 1 ? i / (n - 1) : 0;
+    for (const k in r) {
+      if (k === tKey) continue;
+      const v = r[k];
+      if (typeof v !== "number" || !Number.isFinite(v)) continue;
+      (columns[k] ??= new Float32Array(n).fill(NaN))[i] = v;
+    }
+  }
+  return makeSheet(t, columns);
+}
+
+export function sessionFromSets(sets: RowsBySheet): SessionData {
+  const out: SessionData = {};
+  for (const [name, rows] of Object.entries(sets)) out[name] = sheetFromRows(rows);
+  return out;
+}
+
+/** Sheet → rows, e.g. for JSON export. Frames without any sample are left out. */
+export function sheetToRows(sheet: SheetData): Row[] {
+  const keys = Object.keys(sheet.columns);
+  const rows: Row[] = [];
+  for (let i = 0; i < sheet.t.length; i++) {
+    const row: Row = { t: sheet.t[i] };
+    for (const k of keys) {
+      const v = sheet.columns[k][i];
+      if (Number.isFinite(v)) row[k] = v;
+    }
+    if (Object.keys(row).length > 1) rows.push(row);
+  }
+  return rows;
+}
+
+/** A channel as a trace starting at 0 s (its first sample), or null when it has none. */
+export function channelTrace(sheet: SheetData, key: string): ChannelTrace | null {
+  const meta = sheet.channels[key];
+  if (!meta) return null;
+  return { t: sheet.t, v: sheet.columns[key], t0: sheet.t[meta.first], start: meta.first, end: meta.last + 1 };
+}
+
+/** Seconds from a trace's first to its last sample. */
+export function traceDuration(tr: ChannelTrace): number {
+  return tr.end > tr.start ? Math.max(0, tr.t[tr.end - 1] - tr.t0) : 0;
+}
+
+/** The finite samples of a trace as points (report tables, filter output). */
+export function tracePoints(tr: ChannelTrace): Array<{ t: number; value: number }> {
+  const out: Array<{ t: number; value: number }> = [];
+  for (let i = tr.start; i < tr.end; i++) {
+    const v = tr.v[i];
+    const t = tr.t[i] - tr.t0;
+    if (Number.isFinite(v) && Number.isFinite(t)) out.push({ t, value: v });
+  }
+  return out;
+}
+
+/** Points → trace; points without a time are spread over 0…1 like sheetFromRows does. */
+export function pointsTrace(pts: Array<{ t?: number; value: number }>): ChannelTrace {
+  const n = pts.length;
+  const t = new Float64Array(n);
+  const v = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    t[i] = pts[i].t ?? (n > 1 ? i / (n - 1) : 0);
+    v[i] = pts[i].value;
+  }
+  return { t, v, t0: 0, start: 0, end: n };
+}
+
+/** Every column buffer, for posting a session between threads as transferables. */
+export function sessionBuffers(data: SessionData): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  for (const s of Object.values(data)) {
+    for (const c of [s.t, ...Object.values(s.columns)]) buffers.add(c.buffer as ArrayBuffer);
+  }
+  return [...buffers];
+}
+
+/** Bytes held in a session's columns. */
+export function sessionBytes(data: SessionData): number {
+  let sum = 0;
+  for (const s of Object.values(data)) {
+    sum += s.t.byteLength;
+    for (const c of Object.values(s.columns)) sum += c.byteLength;
+  }
+  return sum;
+}
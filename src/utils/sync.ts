@@ -0,0 +1,212 @@
+// src/utils/sync.ts
+import * as THREE from "three";
+import { clone as cloneSkinned } from "three/examples/jsm/utils/SkeletonUtils.js";
+import { jointKeyForName, trackSpeed } from "./joints";
+import type { JointData, JointTrack } from "./joints";
+
+/**
+ * Model (animation) time → data-sheet time: tData = rate · tModel + offset.
+ * `offset` is in data seconds; `rate` absorbs frame-rate mismatches.
+ */
+export type TimeSync = { offset: number; rate: number };
+
+/** Partial form accepted in manifests (`offset` defaults to 0, `rate` to 1). */
+export type SyncSpec = { offset?: number; rate?: number };
+
+export const IDENTITY_SYNC: TimeSync = { offset: 0, rate: 1 };
+
+export function resolveSync(spec: SyncSpec | null | undefined): TimeSync | null {
+  if (!spec) return null;
+  const offset = Number(spec.offset ?? 0);
+  const rate = Number(spec.rate ?? 1);
+  return Number.isFinite(offset) && rate > 0 ? { offset, rate } : null;
+}
+
+/** Legacy behaviour: stretch the data over the clip, both starting at 0. */
+export function stretchSync(modelDuration: number, dataDuration: number): TimeSync {
+  return modelDuration > 0 && dataDuration > 0 ? { offset: 0, rate: dataDuration / modelDuration } : IDENTITY_SYNC;
+}
+
+export const modelToData = (sync: TimeSync, t: number) => sync.rate * t + sync.offset;
+export const dataToModel = (sync: TimeSync, t: number) => (t - sync.offset) / sync.rate;
+
+const OVERRIDES_KEY = "seq_sync";
+
+/** Admin sync nudges kept in this browser, keyed `player/session/take`. */
+export function loadSyncOverrides(): Record<string, TimeSync> {
+  if (typeof localStorage === "undefined") return {};
+  try {
+    const raw = JSON.parse(localStorage.getItem(OVERRIDES_KEY) ?? "{}") as Record<string, SyncSpec>;
+    const out: Record<string, TimeSync> = {};
+    for (const [key, spec] of Object.entries(raw)) {
+      const sync = resolveSync(spec);
+      if (sync) out[key] = sync;
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+export function saveSyncOverrides(overrides: Record<string, TimeSync>) {
+  if (typeof localStorage !== "undefined") localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+}
+
+/**
+ * World positions of every recognizable bone over the clip, as JointData
+ * (scene space, metres) keyed like the data sheets. Works on a clone so the
+ * displayed model keeps its pose.
+ */
+export function sampleModelJoints(
+  object: THREE.Object3D,
+  clip: THREE.AnimationClip,
+  scale: number,
+  fps: number
+): JointData {
+  const root = cloneSkinned(object);
+  root.position.set(0, 0, 0);
+  root.rotation.set(0, 0, 0);
+  root.scale.setScalar(scale);
+
+  const bones = new Map<string, THREE.Object3D>();
+  root.traverse((obj) => {
+    if (!(obj as THREE.Bone).isBone) return;
+    const key = jointKeyForName(obj.name);
+    if (key && !bones.has(key)) bones.set(key, obj);
+  });
+
+  const n = Math.max(2, Math.floor(clip.duration * fps) + 1);
+  const times = new Float64Array(n);
+  const tracks: Record<string, JointTrack> = {};
+  for (const [key] of bones) tracks[key] = { key, label: key, xyz: new Float32Array(n * 3) };
+
+  const mixer = new THREE.AnimationMixer(root);
+  mixer.clipAction(clip).play();
+  const p = new THREE.Vector3();
+  for (let i = 0; i < n; i++) {
+    const t = Math.min(clip.duration, i / fps);
+    times[i] = t;
+    mixer.setTime(t);
+    root.updateMatrixWorld(true);
+    for (const [key, bone] of bones) {
+      bone.getWorldPosition(p);
+      tracks[key].xyz.set([p.x, p.y, p.z], i * 3);
+    }
+  }
+  mixer.stopAllAction();
+  mixer.uncacheRoot(root);
+
+  return { times, duration: times[n - 1], tracks };
+}
+
+/** Fast-moving joints first: they give the sharpest correlation peak. */
+const SYNC_JOINT_ORDER = [
+  "/Joint/Wrist/Right",
+  "/Joint/Wrist/Left",
+  "/Joint/Elbow/Right",
+  "/Joint/Elbow/Left",
+  "/Joint/Ankle/Right",
+  "/Joint/Ankle/Left",
+  "/Joint/Knee/Right",
+  "/Joint/Knee/Left",
+  "/Joint/Pelvis",
+];
+
+/** Joint keys present in both the data and the sampled model, best candidates first. */
+export function commonSyncJoints(data: JointData, model: JointData): string[] {
+  const shared = Object.keys(model.tracks).filter((k) => !!data.tracks[k]);
+  const rank = (k: string) => {
+    const i = SYNC_JOINT_ORDER.indexOf(k);
+    return i < 0 ? SYNC_JOINT_ORDER.length : i;
+  };
+  return shared.sort((a, b) => rank(a) - rank(b));
+}
+
+/** Speed of a track resampled onto a uniform grid; `timeScale` maps its times first. */
+function speedOnGrid(data: JointData, track: JointTrack, timeScale: number, dt: number): Float64Array {
+  const { times } = data;
+  if (times.length < 2) return new Float64Array(0);
+  const speed = trackSpeed(data, track);
+  const n = Math.floor((times[times.length - 1] * timeScale) / dt) + 1;
+  const out = new Float64Array(Math.max(0, n)).fill(NaN);
+  let j = 0;
+  for (let k = 0; k < out.length; k++) {
+    const t = (k * dt) / timeScale;
+    while (j < times.length - 2 && times[j + 1] < t) j++;
+    const span = times[j + 1] - times[j];
+    const u = span > 0 ? Math.min(1, Math.max(0, (t - times[j]) / span)) : 0;
+    out[k] = speed[j] + (speed[j + 1] - speed[j]) * u;
+  }
+  return out;
+}
+
+/** Pearson correlation of f[k + lag] against g[k] over their finite overlap. */
+function correlationAt(f: Float64Array, g: Float64Array, lag: number, minOverlap: number): number {
+  let n = 0, sf = 0, sg = 0, sff = 0, sgg = 0, sfg = 0;
+  const k0 = Math.max(0, -lag);
+  const k1 = Math.min(g.length, f.length - lag);
+  for (let k = k0; k < k1; k++) {
+    const a = f[k + lag];
+    const b = g[k];
+    if (!Number.isFinite(a) || !Number.isFinite(b)) continue;
+    n++;
+    sf += a;
+    sg += b;
+    sff += a * a;
+    sgg += b * b;
+    sfg += a * b;
+  }
+  if (n < minOverlap) return -Infinity;
+  const cov = sfg - (sf * sg) / n;
+  const vf = sff - (sf * sf) / n;
+  const vg = sgg - (sg * sg) / n;
+  return vf > 0 && vg > 0 ? cov / Math.sqrt(vf * vg) : -Infinity;
+}
+
+export type SyncEstimate = TimeSync & { score: number };
+
+/**
+ * Find the sync that best lines up a joint's speed profile in the data with
+ * the same bone sampled from the model (normalized cross-correlation over the
+ * lag, for each candidate rate, refined to sub-sample precision).
+ */
+export function estimateSync(
+  data: JointData,
+  dataTrack: JointTrack,
+  model: JointData,
+  modelTrack: JointTrack,
+  rates: number[] = [1]
+): SyncEstimate | null {
+  const span = Math.max(data.duration, model.duration);
+  if (!(span > 0)) return null;
+  const dt = Math.max(1 / 240, span / 3000);
+  const f = speedOnGrid(data, dataTrack, 1, dt);
+
+  let best: SyncEstimate | null = null;
+  for (const rate of rates) {
+    if (!(rate > 0)) continue;
+    const g = speedOnGrid(model, modelTrack, rate, dt);
+    const minOverlap = Math.max(8, Math.floor(0.5 * Math.min(f.length, g.length)));
+    const scores = new Map<number, number>();
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    for (let lag = -g.length + minOverlap; lag <= f.length - minOverlap; lag++) {
+      const r = correlationAt(f, g, lag, minOverlap);
+      scores.set(lag, r);
+      if (r > bestScore) {
+        bestScore = r;
+        bestLag = lag;
+      }
+    }
+    if (!Number.isFinite(bestScore)) continue;
+
+    // Parabolic peak interpolation between neighbouring lags
+    const a = scores.get(bestLag - 1) ?? -Infinity;
+    const c = scores.get(bestLag + 1) ?? -Infinity;
+    const denom = a - 2 * bestScore + c;
+    const frac = Number.isFinite(a) && Number.isFinite(c) && denom < 0 ? (0.5 * (a - c)) / denom : 0;
+
+    if (!best || bestScore > best.score) best = { offset: (bestLag + frac) * dt, rate, score: bestScore };
+  }
+  return best;
+}
@@ -0,0 +1,289 @@
+// src/utils/videoExport.ts
+import { createZip } from "./zip";
+import type { ZipEntry } from "./zip";
+import { createWebm } from "./webm";
+import type { WebmFrame, WebmTrack } from "./webm";
+
+export type ExportFormat = "webm" | "png";
+
+export type VideoExportOptions = {
+  format: ExportFormat;
+  width: number;
+  height: number;
+  fps: number;            // output frames per second
+  speed: number;          // playback seconds per output second (0.25 = 4× slow motion)
+  start: number;          // playback seconds
+  end: number;
+  includeGraphs: boolean;
+};
+
+/** What the exporter needs from the viewer for each frame. */
+export type FrameSource = {
+  /** Pose everything at playback time `t` (synchronously committed). */
+  seek: (t: number) => void;
+  /** Render the 3D view now and return its canvas. */
+  render: () => HTMLCanvasElement;
+  /** Graph panels to composite under the 3D view. */
+  graphs: () => SVGSVGElement[];
+};
+
+export type ExportResult = { blob: Blob; ext: string };
+
+/** Share of the frame height given to the graph strip. */
+const GRAPH_STRIP = 0.3;
+
+const VIDEO_TYPES = [
+  { mime: "video/webm;codecs=vp9", ext: "webm" },
+  { mime: "video/webm;codecs=vp8", ext: "webm" },
+  { mime: "video/webm", ext: "webm" },
+  { mime: "video/mp4", ext: "mp4" },
+];
+
+/** WebCodecs codecs tried for frame-exact WebM, best first */
+const ENCODER_CODECS: Array<{ codec: string; id: WebmTrack["codec"] }> = [
+  { codec: "vp09.00.10.08", id: "V_VP9" },
+  { codec: "vp8", id: "V_VP8" },
+];
+
+const VIDEO_BITRATE = 12_000_000;
+
+const hasWebCodecs = () => typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined";
+
+/**
+ * Video output available in this browser. `exact`: encoded with WebCodecs,
+ * each frame stamped i / fps. Otherwise MediaRecorder records in real time
+ * and the clip's timing is best-effort (a slow frame stretches it).
+ */
+export function pickVideoType(): { mime: string; ext: string; exact: boolean } | null {
+  if (hasWebCodecs()) return { mime: "video/webm", ext: "webm", exact: true };
+  if (typeof MediaRecorder === "undefined") return null;
+  const type = VIDEO_TYPES.find((v) => MediaRecorder.isTypeSupported(v.mime));
+  return type ? { ...type, exact: false } : null;
+}
+
+async function pickEncoderConfig(opts: VideoExportOptions) {
+  if (!hasWebCodecs()) return null;
+  for (const { codec, id } of ENCODER_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width: opts.width,
+      height: opts.height,
+      framerate: opts.fps,
+      bitrate: VIDEO_BITRATE,
+    };
+    try {
+      if ((await VideoEncoder.isConfigSupported(config)).supported) return { config, id };
+    } catch {
+      // unsupported codec string: try the next one
+    }
+  }
+  return null;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 800);
+  a.remove();
+}
+
+/** Rasterize an inline SVG (e.g. a SimpleGraph) into an image. */
+export function svgToImage(svg: SVGSVGElement): Promise<HTMLImageElement> {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  const text = new XMLSerializer().serializeToString(clone);
+  const url = URL.createObjectURL(new Blob([text], { type: "image/svg+xml" }));
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Couldn't rasterize graph SVG"));
+    };
+    img.src = url;
+  });
+}
+
+/** Scale `src` to cover the target rect (centre crop). */
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  src: CanvasImageSource & { width: number; height: number },
+  x: number,
+  y: number,
+  w: number,
+  h: number
+) {
+  const s = Math.max(w / src.width, h / src.height);
+  const sw = w / s;
+  const sh = h / s;
+  ctx.drawImage(src, (src.width - sw) / 2, (src.height - sh) / 2, sw, sh, x, y, w, h);
+}
+
+/** Scale `src` to fit inside the target rect (letterbox). */
+function drawContain(
+  ctx: CanvasRenderingContext2D,
+  src: CanvasImageSource & { width: number; height: number },
+  x: number,
+  y: number,
+  w: number,
+  h: number
+) {
+  const s = Math.min(w / src.width, h / src.height);
+  const dw = src.width * s;
+  const dh = src.height * s;
+  ctx.drawImage(src, x + (w - dw) / 2, y + (h - dh) / 2, dw, dh);
+}
+
+async function composeFrame(ctx: CanvasRenderingContext2D, opts: VideoExportOptions, source: FrameSource) {
+  const { width: W, height: H } = opts;
+  const view = source.render();
+  const svgs = opts.includeGraphs ? source.graphs() : [];
+  const stripH = svgs.length ? Math.round(H * GRAPH_STRIP) : 0;
+
+  ctx.fillStyle = "#0b0e12";
+  ctx.fillRect(0, 0, W, H);
+  drawCover(ctx, view, 0, 0, W, H - stripH);
+
+  if (svgs.length) {
+    const images = await Promise.all(svgs.map(svgToImage));
+    const cellW = W / images.length;
+    images.forEach((img, i) => drawContain(ctx, img, i * cellW, H - stripH, cellW, stripH));
+  }
+}
+
+/** Centre-cropped JPEG data URL of a canvas (e.g. a report still). */
+export function snapshotCanvas(src: HTMLCanvasElement, width: number, height: number, quality = 0.88) {
+  const out = document.createElement("canvas");
+  out.width = width;
+  out.height = height;
+  const ctx = out.getContext("2d");
+  if (!ctx) throw new Error("2D canvas is not available");
+  ctx.fillStyle = "#0b0e12";
+  ctx.fillRect(0, 0, width, height);
+  drawCover(ctx, src, 0, 0, width, height);
+  return out.toDataURL("image/jpeg", quality);
+}
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const checkAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Export cancelled", "AbortError");
+};
+
+/**
+ * Step playback frame by frame and encode the result. Frame content depends
+ * only on the options (time = start + i · speed / fps), never on wall-clock
+ * timing. PNG sequences and WebCodecs WebM are fully deterministic (frame i
+ * is stamped i / fps however long it took to render); without WebCodecs the
+ * video is recorded in real time by MediaRecorder and its timing is only
+ * best-effort.
+ */
+export async function exportVideo(
+  opts: VideoExportOptions,
+  source: FrameSource,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<ExportResult> {
+  const step = opts.speed / opts.fps;
+  const total = Math.max(1, Math.floor((opts.end - opts.start) / step) + 1);
+
+  const out = document.createElement("canvas");
+  out.width = opts.width;
+  out.height = opts.height;
+  const ctx = out.getContext("2d");
+  if (!ctx) throw new Error("2D canvas is not available");
+
+  const renderFrame = async (i: number) => {
+    checkAborted(signal);
+    source.seek(Math.min(opts.end, opts.start + i * step));
+    await composeFrame(ctx, opts, source);
+  };
+
+  if (opts.format === "png") {
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < total; i++) {
+      await renderFrame(i);
+      const png = await new Promise<Blob | null>((r) => out.toBlob(r, "image/png"));
+      if (!png) throw new Error("Couldn't encode PNG frame");
+      entries.push({ name: `frame_${String(i + 1).padStart(5, "0")}.png`, data: new Uint8Array(await png.arrayBuffer()) });
+      onProgress?.(i + 1, total);
+    }
+    return { blob: createZip(entries), ext: "zip" };
+  }
+
+  const encoder = await pickEncoderConfig(opts);
+  if (encoder) {
+    const frames: WebmFrame[] = [];
+    let failure = null as Error | null;
+    const videoEncoder = new VideoEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        frames.push({ data, timestamp: chunk.timestamp, key: chunk.type === "key" });
+      },
+      error: (e) => {
+        failure = e;
+      },
+    });
+    videoEncoder.configure(encoder.config);
+
+    const frameUs = 1e6 / opts.fps;
+    try {
+      for (let i = 0; i < total; i++) {
+        if (failure) throw failure;
+        await renderFrame(i);
+        const frame = new VideoFrame(out, { timestamp: Math.round(i * frameUs), duration: Math.round(frameUs) });
+        // A keyframe every 2 s keeps the file seekable
+        videoEncoder.encode(frame, { keyFrame: i % (2 * opts.fps) === 0 });
+        frame.close();
+        onProgress?.(i + 1, total);
+        // Rendering outpaces a software encoder: don't queue up every frame in memory
+        while (videoEncoder.encodeQueueSize > 4) await wait(5);
+      }
+      await videoEncoder.flush();
+    } finally {
+      if (videoEncoder.state !== "closed") videoEncoder.close();
+    }
+    if (failure) throw failure;
+    return {
+      blob: createWebm({ codec: encoder.id, width: opts.width, height: opts.height, fps: opts.fps }, frames),
+      ext: "webm",
+    };
+  }
+
+  const type = VIDEO_TYPES.find((v) => typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(v.mime));
+  if (!type) throw new Error("This browser can't encode video (no WebCodecs or MediaRecorder)");
+
+  // Real-time fallback: paced at `fps` so MediaRecorder's wall-clock timestamps roughly match
+  const stream = out.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: type.mime, videoBitsPerSecond: VIDEO_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((r) => (recorder.onstop = () => r()));
+  recorder.start();
+
+  try {
+    for (let i = 0; i < total; i++) {
+      const t0 = performance.now();
+      await renderFrame(i);
+      track.requestFrame();
+      onProgress?.(i + 1, total);
+      await wait(Math.max(0, 1000 / opts.fps - (performance.now() - t0)));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    track.stop();
+  }
+
+  return { blob: new Blob(chunks, { type: type.mime.split(";")[0] }), ext: type.ext };
+}
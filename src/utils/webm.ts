@@ -0,0 +1,139 @@
+// src/utils/webm.ts
+
+/* Minimal WebM (Matroska) writer: one video track of frames that are already
+   encoded (WebCodecs VP8 / VP9 chunks), no audio, no cues. Every frame keeps
+   the timestamp it was encoded with, so the file plays at exactly the rate it
+   was rendered at however long each frame took to render. */
+
+export type WebmFrame = {
+  data: Uint8Array;
+  /** µs, as on the EncodedVideoChunk */
+  timestamp: number;
+  key: boolean;
+};
+
+export type WebmTrack = {
+  codec: "V_VP8" | "V_VP9";
+  width: number;
+  height: number;
+  fps: number;
+};
+
+const EBML = 0x1a45dfa3;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const VIDEO = 0xe0;
+const CLUSTER = 0x1f43b675;
+const TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+/** Block times are stored in ms (the Matroska default scale) */
+const TIMECODE_SCALE = 1_000_000;
+/** A block's time is an int16 offset from its cluster's */
+const MAX_CLUSTER_MS = 32767;
+
+const enc = new TextEncoder();
+
+function bytesOf(n: number, len: number): Uint8Array {
+  const out = new Uint8Array(len);
+  for (let i = len - 1; i >= 0; i--) {
+    out[i] = n % 256;
+    n = Math.floor(n / 256);
+  }
+  return out;
+}
+
+function minLength(n: number): number {
+  let len = 1;
+  while (n >= 256 ** len) len++;
+  return len;
+}
+
+const sizeOf = (parts: Uint8Array[]) => parts.reduce((sum, p) => sum + p.length, 0);
+
+/** Element header: the ID, then the size as an 8-byte vint (0x01 marker). */
+function header(id: number, size: number): Uint8Array {
+  const idBytes = bytesOf(id, minLength(id));
+  const out = new Uint8Array(idBytes.length + 8);
+  out.set(idBytes);
+  out.set(bytesOf(size, 8), idBytes.length);
+  out[idBytes.length] = 0x01;
+  return out;
+}
+
+function element(id: number, body: Uint8Array[]): Uint8Array[] {
+  return [header(id, sizeOf(body)), ...body];
+}
+
+const uintEl = (id: number, n: number) => element(id, [bytesOf(n, minLength(n))]);
+const stringEl = (id: number, s: string) => element(id, [enc.encode(s)]);
+function floatEl(id: number, f: number) {
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setFloat64(0, f);
+  return element(id, [body]);
+}
+
+function simpleBlock(frame: WebmFrame, relMs: number): Uint8Array[] {
+  const head = new Uint8Array(4);
+  head[0] = 0x81; // track 1
+  new DataView(head.buffer).setInt16(1, relMs);
+  head[3] = frame.key ? 0x80 : 0;
+  return element(SIMPLE_BLOCK, [head, frame.data]);
+}
+
+/** Mux frames (in decode order) into a WebM file. */
+export function createWebm(track: WebmTrack, frames: WebmFrame[]): Blob {
+  const ebmlHeader = element(EBML, [
+    ...uintEl(0x4286, 1), // EBMLVersion
+    ...uintEl(0x42f7, 1), // EBMLReadVersion
+    ...uintEl(0x42f2, 4), // EBMLMaxIDLength
+    ...uintEl(0x42f3, 8), // EBMLMaxSizeLength
+    ...stringEl(0x4282, "webm"), // DocType
+    ...uintEl(0x4287, 2), // DocTypeVersion
+    ...uintEl(0x4285, 2), // DocTypeReadVersion
+  ]);
+
+  const frameMs = 1000 / track.fps;
+  const lastMs = frames.length ? Math.max(...frames.map((f) => f.timestamp / 1000)) : 0;
+  const info = element(INFO, [
+    ...uintEl(0x2ad7b1, TIMECODE_SCALE),
+    ...stringEl(0x4d80, "SEQUENCE Motion Viewer"), // MuxingApp
+    ...stringEl(0x5741, "SEQUENCE Motion Viewer"), // WritingApp
+    ...floatEl(0x4489, frames.length ? lastMs + frameMs : 0), // Duration (ms)
+  ]);
+
+  const tracks = element(TRACKS, [
+    ...element(TRACK_ENTRY, [
+      ...uintEl(0xd7, 1), // TrackNumber
+      ...uintEl(0x73c5, 1), // TrackUID
+      ...uintEl(0x83, 1), // TrackType: video
+      ...uintEl(0x9c, 0), // FlagLacing
+      ...uintEl(0x23e383, Math.round(1e9 / track.fps)), // DefaultDuration (ns)
+      ...stringEl(0x86, track.codec),
+      ...element(VIDEO, [...uintEl(0xb0, track.width), ...uintEl(0xba, track.height)]),
+    ]),
+  ]);
+
+  // A new cluster at every keyframe (and before the block offset would overflow)
+  const clusters: Uint8Array[] = [];
+  let blocks: Uint8Array[] = [];
+  let clusterMs = 0;
+  const flush = () => {
+    if (blocks.length) clusters.push(...element(CLUSTER, [...uintEl(TIMECODE, clusterMs), ...blocks]));
+    blocks = [];
+  };
+  for (const frame of frames) {
+    const ms = Math.round(frame.timestamp / 1000);
+    if (!blocks.length || frame.key || ms - clusterMs > MAX_CLUSTER_MS) {
+      flush();
+      clusterMs = ms;
+    }
+    blocks.push(...simpleBlock(frame, ms - clusterMs));
+  }
+  flush();
+
+  const body = [...info, ...tracks, ...clusters];
+  return new Blob([...ebmlHeader, header(SEGMENT, sizeOf(body)), ...body], { type: "video/webm" });
+}